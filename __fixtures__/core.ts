@@ -6,5 +6,12 @@ export const error = jest.fn<typeof core.error>()
 export const info = jest.fn<typeof core.info>()
 export const getInput = jest.fn<typeof core.getInput>()
 export const setOutput = jest.fn<typeof core.setOutput>()
+export const setSecret = jest.fn<typeof core.setSecret>()
 export const setFailed = jest.fn<typeof core.setFailed>()
 export const warning = jest.fn<typeof core.warning>()
+export const summary = {
+  addHeading: jest.fn(() => summary),
+  addRaw: jest.fn(() => summary),
+  addTable: jest.fn(() => summary),
+  write: jest.fn(async () => summary)
+}
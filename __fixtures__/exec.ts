@@ -0,0 +1,5 @@
+import type * as actionsExec from '@actions/exec'
+import { jest } from '@jest/globals'
+
+export const exec = jest.fn<typeof actionsExec.exec>()
+export const getExecOutput = jest.fn<typeof actionsExec.getExecOutput>()
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for src/utils/backup.ts
+ */
+import { jest } from '@jest/globals'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as core from '../../__fixtures__/core.js'
+import * as exec from '../../__fixtures__/exec.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('@actions/exec', () => exec)
+
+let backupDatabase: typeof import('../../src/utils/backup.js').backupDatabase
+let restoreDatabase: typeof import('../../src/utils/backup.js').restoreDatabase
+
+const connectionString =
+  'Server=tcp:db,1433;Database=app;User Id=sa;Password=S3cret!Pass'
+
+describe('backup.ts', () => {
+  let folder: string
+
+  beforeAll(async () => {
+    ;({ backupDatabase, restoreDatabase } = await import(
+      '../../src/utils/backup.js'
+    ))
+  })
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-'))
+    exec.exec.mockResolvedValue(0)
+  })
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true })
+    jest.resetAllMocks()
+  })
+
+  it('Passes the SQL Server password through the environment', async () => {
+    const backupPath = await backupDatabase(
+      'sqlserver',
+      connectionString,
+      folder
+    )
+    await restoreDatabase('sqlserver', connectionString, backupPath)
+
+    expect(exec.exec).toHaveBeenCalledTimes(2)
+    for (const [command, args, options] of exec.exec.mock.calls) {
+      expect(command).toBe('sqlcmd')
+      expect(args).toEqual(
+        expect.arrayContaining(['-S', 'db,1433', '-U', 'sa'])
+      )
+      expect(args?.join(' ')).not.toContain('S3cret!Pass')
+      expect(args).not.toContain('-P')
+      expect(options?.env?.SQLCMDPASSWORD).toBe('S3cret!Pass')
+    }
+  })
+})
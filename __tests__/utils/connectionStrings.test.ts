@@ -0,0 +1,66 @@
+/**
+ * Unit tests for src/utils/connectionStrings.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+let parseConnectionStrings: typeof import('../../src/utils/connectionStrings.js').parseConnectionStrings
+let registerConnectionStrings: typeof import('../../src/utils/connectionStrings.js').registerConnectionStrings
+
+describe('connectionStrings.ts', () => {
+  beforeAll(async () => {
+    ;({ parseConnectionStrings, registerConnectionStrings } = await import(
+      '../../src/utils/connectionStrings.js'
+    ))
+  })
+
+  afterEach(() => {
+    delete process.env.ConnectionStrings__Default
+    delete process.env.ConnectionStrings__Identity
+    jest.resetAllMocks()
+  })
+
+  it('Keeps "=" in values and skips blank lines', () => {
+    expect(
+      parseConnectionStrings(
+        '\nDefault = Host=db;Database=app;Password=a=b \r\n\n  \nIdentity=Data Source=id.db\n'
+      )
+    ).toEqual({
+      ConnectionStrings__Default: 'Host=db;Database=app;Password=a=b',
+      ConnectionStrings__Identity: 'Data Source=id.db'
+    })
+  })
+
+  it('Rejects lines without a name or separator', () => {
+    const message =
+      'Invalid connection_strings entry: expected one "Name=ConnectionString" per line.'
+
+    expect(() => parseConnectionStrings('Host=db;Database=app\n=x')).toThrow(
+      message
+    )
+    expect(() => parseConnectionStrings('Default')).toThrow(message)
+  })
+
+  it('Masks each value before registering it', () => {
+    registerConnectionStrings('Default=Host=db;Password=secret')
+
+    expect(core.setSecret).toHaveBeenCalledWith('Host=db;Password=secret')
+    expect(core.setSecret).toHaveBeenCalledWith('secret')
+    expect(process.env.ConnectionStrings__Default).toBe(
+      'Host=db;Password=secret'
+    )
+  })
+
+  it('Masks the password of a SQL Server connection string on its own', () => {
+    registerConnectionStrings(
+      'Identity=Server=db;Database=id;User Id=sa;Pwd=P@ssw0rd'
+    )
+
+    expect(core.setSecret).toHaveBeenCalledWith(
+      'Server=db;Database=id;User Id=sa;Pwd=P@ssw0rd'
+    )
+    expect(core.setSecret).toHaveBeenCalledWith('P@ssw0rd')
+  })
+})
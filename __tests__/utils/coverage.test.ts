@@ -0,0 +1,129 @@
+/**
+ * Unit tests for src/utils/coverage.ts
+ */
+import {
+  checkCoverageThresholds,
+  compareCoverage,
+  createCoverageBaseline,
+  mergeCoverage,
+  parseCobertura,
+  summarizeCoverage
+} from '../../src/utils/coverage.js'
+import { parseChangedLines } from '../../src/utils/git.js'
+
+const cobertura = `<?xml version="1.0" encoding="utf-8"?>
+<coverage line-rate="0.75" branch-rate="0.5" version="1.9" timestamp="1714557600">
+  <sources>
+    <source>/work/app/</source>
+  </sources>
+  <packages>
+    <package name="App.Core" line-rate="0.75" branch-rate="0.5" complexity="3">
+      <classes>
+        <class name="App.Core.Users" filename="src/App.Core/Users.cs" line-rate="0.75" branch-rate="0.5" complexity="3">
+          <methods>
+            <method name="Create" signature="()" line-rate="0.75" branch-rate="0.5" complexity="3">
+              <lines>
+                <line number="10" hits="1" branch="False" />
+                <line number="11" hits="1" branch="True" condition-coverage="50% (1/2)" />
+              </lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="10" hits="1" branch="False" />
+            <line number="11" hits="1" branch="True" condition-coverage="50% (1/2)" />
+            <line number="12" hits="3" branch="False" />
+            <line number="13" hits="0" branch="False" />
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`
+
+describe('coverage.ts', () => {
+  it('Parses class lines relative to the repository root', () => {
+    expect(parseCobertura(cobertura, '/work/app')).toEqual([
+      {
+        assembly: 'App.Core',
+        file: 'src/App.Core/Users.cs',
+        lines: {
+          10: { hits: 1, branchesCovered: 0, branchesValid: 0 },
+          11: { hits: 1, branchesCovered: 1, branchesValid: 2 },
+          12: { hits: 3, branchesCovered: 0, branchesValid: 0 },
+          13: { hits: 0, branchesCovered: 0, branchesValid: 0 }
+        }
+      }
+    ])
+  })
+
+  it('Merges reports and checks the thresholds', () => {
+    const first = parseCobertura(cobertura, '/work/app')
+    const second = parseCobertura(
+      cobertura.replace('number="13" hits="0"', 'number="13" hits="2"'),
+      '/work/app'
+    )
+    const summary = summarizeCoverage(mergeCoverage([first, second]))
+
+    expect(summary).toMatchObject({
+      linesCovered: 4,
+      linesValid: 4,
+      lineRate: 100,
+      branchRate: 50
+    })
+    expect(summary.assemblies.map((assembly) => assembly.name)).toEqual([
+      'App.Core'
+    ])
+    expect(checkCoverageThresholds(summary, 80, 80)).toEqual([
+      'Branch coverage 50% is below the minimum of 80%.'
+    ])
+    expect(checkCoverageThresholds(summary, 80, 0)).toEqual([])
+  })
+
+  it('Reports the coverage of changed lines against a baseline', () => {
+    const before = parseCobertura(
+      cobertura.replace('number="12" hits="3"', 'number="12" hits="0"'),
+      '/work/app'
+    )
+    const after = parseCobertura(cobertura, '/work/app')
+    const changedLines = parseChangedLines(
+      [
+        'diff --git a/src/App.Core/Users.cs b/src/App.Core/Users.cs',
+        '--- a/src/App.Core/Users.cs',
+        '+++ b/src/App.Core/Users.cs',
+        '@@ -11,0 +12,3 @@ public class Users',
+        '+        Audit();',
+        '+        return user;',
+        '+        // done',
+        'diff --git a/README.md b/README.md',
+        '--- a/README.md',
+        '+++ b/README.md',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new'
+      ].join('\n')
+    )
+
+    expect(changedLines).toEqual({
+      'src/App.Core/Users.cs': [12, 13, 14],
+      'README.md': [1]
+    })
+    expect(
+      compareCoverage(after, createCoverageBaseline(before), changedLines)
+    ).toEqual({
+      baselineLineRate: 50,
+      lineRate: 75,
+      changedLinesCovered: 1,
+      changedLinesValid: 2,
+      changedLinesRate: 50,
+      files: [
+        {
+          file: 'src/App.Core/Users.cs',
+          baselineLineRate: 50,
+          lineRate: 75,
+          changedLinesCovered: 1,
+          changedLinesValid: 2
+        }
+      ]
+    })
+  })
+})
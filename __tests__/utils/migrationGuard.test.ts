@@ -0,0 +1,155 @@
+/**
+ * Unit tests for src/utils/migrationGuard.ts
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  findDestructiveOperations,
+  scanPendingMigrations
+} from '../../src/utils/migrationGuard.js'
+import { configureEfProject } from '../../src/utils/efRunner.js'
+
+function migration(up: string): string {
+  return `using Microsoft.EntityFrameworkCore.Migrations;
+
+namespace App.Migrations
+{
+    public partial class Change : Migration
+    {
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+${up}
+        }
+
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(name: "Orders");
+        }
+    }
+}
+`
+}
+
+describe('migrationGuard.ts', () => {
+  it('Finds dropped tables and columns in the Up method only', () => {
+    const source = migration(`            migrationBuilder.DropColumn(
+                name: "Nickname",
+                table: "Users");
+
+            migrationBuilder.DropTable(
+                name: "LegacyOrders");`)
+
+    expect(findDestructiveOperations(source)).toEqual([
+      {
+        operation: 'DropColumn',
+        target: 'Users.Nickname',
+        reason: 'column is dropped',
+        line: 9
+      },
+      {
+        operation: 'DropTable',
+        target: 'LegacyOrders',
+        reason: 'table is dropped',
+        line: 13
+      }
+    ])
+  })
+
+  it('Flags AlterColumn calls that narrow the column', () => {
+    const source = migration(`            migrationBuilder.AlterColumn<string>(
+                name: "Email",
+                table: "Users",
+                maxLength: 100,
+                oldMaxLength: 256);
+
+            migrationBuilder.AlterColumn<string>(
+                name: "Code",
+                table: "Products",
+                type: "nvarchar(10)",
+                oldType: "nvarchar(50)");
+
+            migrationBuilder.AlterColumn<int>(
+                name: "Quantity",
+                table: "Orders",
+                oldClrType: typeof(long));`)
+
+    expect(
+      findDestructiveOperations(source).map(({ target, reason }) => ({
+        target,
+        reason
+      }))
+    ).toEqual([
+      { target: 'Users.Email', reason: 'max length reduced from 256 to 100' },
+      {
+        target: 'Products.Code',
+        reason: 'type narrowed from nvarchar(50) to nvarchar(10)'
+      },
+      { target: 'Orders.Quantity', reason: 'type narrowed from long to int' }
+    ])
+  })
+
+  it('Does not flag AlterColumn calls that widen the column', () => {
+    const source = migration(`            migrationBuilder.AlterColumn<string>(
+                name: "Bio",
+                table: "Users",
+                oldMaxLength: 500);
+
+            migrationBuilder.AlterColumn<string>(
+                name: "Email",
+                table: "Users",
+                maxLength: 512,
+                oldMaxLength: 256);
+
+            migrationBuilder.AlterColumn<string>(
+                name: "Code",
+                table: "Products",
+                type: "nvarchar(max)",
+                oldType: "nvarchar(50)");
+
+            migrationBuilder.AlterColumn<long>(
+                name: "Quantity",
+                table: "Orders",
+                oldClrType: typeof(int));`)
+
+    expect(findDestructiveOperations(source)).toEqual([])
+  })
+
+  it('Scans migrations in the EF project and refuses missing files', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-guard-'))
+    const project = path.join(root, 'src', 'Infrastructure')
+    fs.mkdirSync(path.join(project, 'Migrations'), { recursive: true })
+    fs.writeFileSync(path.join(project, 'Infrastructure.csproj'), '<Project />')
+    fs.writeFileSync(
+      path.join(project, 'Migrations', '20240101120000_DropLegacy.cs'),
+      migration('            migrationBuilder.DropTable(name: "Legacy");')
+    )
+    const pending = [
+      { id: '20240101120000_DropLegacy', name: 'DropLegacy', applied: false }
+    ]
+
+    try {
+      configureEfProject({
+        project: path.join(project, 'Infrastructure.csproj')
+      })
+      expect(
+        scanPendingMigrations(path.join(root, 'src', 'Web'), pending)
+      ).toMatchObject([
+        {
+          migration: '20240101120000_DropLegacy',
+          operation: 'DropTable',
+          target: 'Legacy',
+          file: path.join(project, 'Migrations', '20240101120000_DropLegacy.cs')
+        }
+      ])
+
+      configureEfProject({ project: '' })
+      expect(() =>
+        scanPendingMigrations(path.join(root, 'src', 'Web'), pending)
+      ).toThrow('Cannot verify migration 20240101120000_DropLegacy')
+    } finally {
+      configureEfProject({ project: '' })
+      fs.rmSync(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for src/utils/migrationLint.ts
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  findOutOfOrderMigrations,
+  findSnapshotConflicts,
+  readMigrationsFolder
+} from '../../src/utils/migrationLint.js'
+
+function designer(id: string, model: string): string {
+  return `// <auto-generated />
+using App.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+namespace App.Migrations
+{
+    [DbContext(typeof(AppDbContext))]
+    [Migration("${id}")]
+    partial class ${id.split('_')[1]}
+    {
+        protected override void BuildTargetModel(ModelBuilder modelBuilder)
+        {
+${model}
+        }
+    }
+}
+`
+}
+
+function snapshot(model: string): string {
+  return `// <auto-generated />
+using App.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+
+namespace App.Migrations
+{
+    [DbContext(typeof(App.Data.AppDbContext))]
+    partial class AppDbContextModelSnapshot : ModelSnapshot
+    {
+        protected override void BuildModel(ModelBuilder modelBuilder)
+        {
+${model}
+        }
+    }
+}
+`
+}
+
+const usersModel = `            modelBuilder.Entity("App.Data.User", b =>
+                {
+                    b.Property<int>("Id");
+                    b.HasKey("Id");
+                });`
+
+const ordersModel = `            modelBuilder.Entity("App.Data.Order", b =>
+                {
+                    b.Property<int>("Id");
+                    b.HasKey("Id");
+                });`
+
+describe('migrationLint.ts', () => {
+  let folder: string
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-lint-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true })
+  })
+
+  function write(name: string, content: string): void {
+    fs.writeFileSync(path.join(folder, name), content)
+  }
+
+  it('Finds pending migrations older than the latest applied one', () => {
+    expect(
+      findOutOfOrderMigrations(
+        [
+          '20240101120000_Initial',
+          '20240201120000_AddOrders',
+          '20240301120000_AddUsers',
+          '20240401120000_AddInvoices'
+        ],
+        ['20240101120000_Initial', '20240301120000_AddUsers']
+      )
+    ).toEqual(['20240201120000_AddOrders'])
+    expect(findOutOfOrderMigrations(['20240101120000_Initial'], [])).toEqual([])
+  })
+
+  it('Accepts a snapshot that matches the latest migration', () => {
+    write(
+      '20240101120000_AddUsers.Designer.cs',
+      designer('20240101120000_AddUsers', usersModel)
+    )
+    write('AppDbContextModelSnapshot.cs', snapshot(usersModel))
+
+    const { migrations, snapshots } = readMigrationsFolder(folder)
+
+    expect(migrations.map(({ id, context }) => ({ id, context }))).toEqual([
+      { id: '20240101120000_AddUsers', context: 'AppDbContext' }
+    ])
+    expect(snapshots.map((item) => item.context)).toEqual(['AppDbContext'])
+    expect(findSnapshotConflicts(migrations, snapshots)).toEqual([])
+  })
+
+  it('Reports a snapshot that differs from the latest target model', () => {
+    write(
+      '20240101120000_AddUsers.Designer.cs',
+      designer('20240101120000_AddUsers', usersModel)
+    )
+    write(
+      '20240201120000_AddOrders.Designer.cs',
+      designer('20240201120000_AddOrders', ordersModel)
+    )
+    write(
+      'AppDbContextModelSnapshot.cs',
+      snapshot(`${usersModel}\n\n${ordersModel}`)
+    )
+
+    const { migrations, snapshots } = readMigrationsFolder(folder)
+    const issues = findSnapshotConflicts(migrations, snapshots)
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0].file).toBe(
+      path.join(folder, 'AppDbContextModelSnapshot.cs')
+    )
+    expect(issues[0].message).toContain(
+      'does not match the target model of its latest migration 20240201120000_AddOrders'
+    )
+  })
+
+  it('Reports leftover merge conflict markers', () => {
+    write(
+      '20240101120000_AddUsers.Designer.cs',
+      designer('20240101120000_AddUsers', usersModel)
+    )
+    write(
+      'AppDbContextModelSnapshot.cs',
+      snapshot(
+        `<<<<<<< HEAD\n${usersModel}\n=======\n${ordersModel}\n>>>>>>> feature/orders`
+      )
+    )
+
+    const { migrations, snapshots } = readMigrationsFolder(folder)
+
+    expect(findSnapshotConflicts(migrations, snapshots)).toContainEqual({
+      message: 'File contains merge conflict markers.',
+      file: path.join(folder, 'AppDbContextModelSnapshot.cs')
+    })
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for src/utils/migrations.ts
+ */
+import { parseMigrationList } from '../../src/utils/migrations.js'
+
+describe('migrations.ts', () => {
+  it('Parses prefixed JSON output and ignores log lines', () => {
+    const output = [
+      'info:    Build started...',
+      'info:    Build succeeded.',
+      'warn:    warning CS8618: Non-nullable property must contain a value',
+      'data:    [',
+      'data:      {',
+      'data:        "id": "20240101120000_Initial",',
+      'data:        "name": "Initial",',
+      'data:        "safeName": "Initial",',
+      'data:        "applied": true',
+      'data:      },',
+      'data:      {',
+      'data:        "id": "20240202120000_AddUsers",',
+      'data:        "name": "AddUsers",',
+      'data:        "safeName": "AddUsers",',
+      'data:        "applied": false',
+      'data:      }',
+      'data:    ]'
+    ].join('\n')
+
+    expect(parseMigrationList(output)).toEqual([
+      { id: '20240101120000_Initial', name: 'Initial', applied: true },
+      { id: '20240202120000_AddUsers', name: 'AddUsers', applied: false }
+    ])
+  })
+
+  it('Ignores brackets in log lines before the data', () => {
+    const output = [
+      'info:    Build started...',
+      'warn:    warning CS8602: Dereference of a possibly null reference. [/src/App/App.csproj]',
+      'Using configuration {"Logging":{"LogLevel":"Debug"}}',
+      'data:    [{"id":"20240101120000_Initial","name":"Initial","applied":null}]'
+    ].join('\n')
+
+    expect(parseMigrationList(output)).toEqual([
+      { id: '20240101120000_Initial', name: 'Initial', applied: false }
+    ])
+  })
+
+  it('Does not read JSON from output without prefixes', () => {
+    expect(() =>
+      parseMigrationList(
+        'Build started...\n[{"id":"20240101120000_Initial","name":"Initial","applied":true}]\n'
+      )
+    ).toThrow('No JSON migration list found in dotnet-ef output.')
+  })
+
+  it('Throws when no migration list is present', () => {
+    expect(() => parseMigrationList('Build failed.')).toThrow(
+      'No JSON migration list found in dotnet-ef output.'
+    )
+  })
+})
@@ -0,0 +1,364 @@
+/**
+ * Unit tests for src/utils/schemaDiff.ts
+ */
+import { parseSchemaChanges } from '../../src/utils/schemaDiff.js'
+
+const sqlServerScript = `BEGIN TRANSACTION;
+GO
+
+CREATE TABLE [Orders] (
+    [Id] int NOT NULL IDENTITY,
+    [UserId] int NOT NULL,
+    [Total] decimal(18,2) NOT NULL,
+    CONSTRAINT [PK_Orders] PRIMARY KEY ([Id]),
+    CONSTRAINT [FK_Orders_Users_UserId] FOREIGN KEY ([UserId]) REFERENCES [Users] ([Id]) ON DELETE CASCADE
+);
+GO
+
+ALTER TABLE [Users] ADD [Email] nvarchar(256) NOT NULL DEFAULT N'';
+GO
+
+DECLARE @var0 sysname;
+SELECT @var0 = [d].[name]
+FROM [sys].[default_constraints] [d]
+INNER JOIN [sys].[columns] [c] ON [d].[parent_column_id] = [c].[column_id] AND [d].[parent_object_id] = [c].[object_id]
+WHERE ([d].[parent_object_id] = OBJECT_ID(N'[Users]') AND [c].[name] = N'Nickname');
+IF @var0 IS NOT NULL EXEC(N'ALTER TABLE [Users] DROP CONSTRAINT [' + @var0 + '];');
+ALTER TABLE [Users] DROP COLUMN [Nickname];
+GO
+
+DECLARE @var1 sysname;
+SELECT @var1 = [d].[name]
+FROM [sys].[default_constraints] [d]
+INNER JOIN [sys].[columns] [c] ON [d].[parent_column_id] = [c].[column_id] AND [d].[parent_object_id] = [c].[object_id]
+WHERE ([d].[parent_object_id] = OBJECT_ID(N'[Users]') AND [c].[name] = N'Name');
+IF @var1 IS NOT NULL EXEC(N'ALTER TABLE [Users] DROP CONSTRAINT [' + @var1 + '];');
+ALTER TABLE [Users] ALTER COLUMN [Name] nvarchar(100) NOT NULL;
+GO
+
+EXEC sp_rename N'[Users].[Login]', N'UserName', N'COLUMN';
+GO
+
+EXEC sp_rename N'[Customers]', N'Clients';
+GO
+
+DROP TABLE [LegacyOrders];
+GO
+
+CREATE INDEX [IX_Orders_UserId] ON [Orders] ([UserId]);
+GO
+
+CREATE UNIQUE INDEX [IX_Users_Email] ON [Users] ([Email]) WHERE [Email] IS NOT NULL;
+GO
+
+DROP INDEX [IX_Users_Name] ON [Users];
+GO
+
+ALTER TABLE [Orders] DROP CONSTRAINT [FK_Orders_Customers_CustomerId];
+GO
+
+INSERT INTO [__EFMigrationsHistory] ([MigrationId], [ProductVersion])
+VALUES (N'20240301120000_Shop', N'8.0.4');
+GO
+
+COMMIT;
+GO
+`
+
+const postgresScript = `START TRANSACTION;
+
+CREATE TABLE "Orders" (
+    "Id" integer GENERATED BY DEFAULT AS IDENTITY,
+    "UserId" integer NOT NULL,
+    "Total" numeric(18,2) NOT NULL,
+    CONSTRAINT "PK_Orders" PRIMARY KEY ("Id"),
+    CONSTRAINT "FK_Orders_Users_UserId" FOREIGN KEY ("UserId") REFERENCES "Users" ("Id") ON DELETE CASCADE
+);
+
+ALTER TABLE "Users" ADD "Email" character varying(256) NOT NULL DEFAULT '';
+
+ALTER TABLE "Users" DROP COLUMN "Nickname";
+
+ALTER TABLE "Users" ALTER COLUMN "Name" TYPE character varying(100);
+
+ALTER TABLE "Users" ALTER COLUMN "Name" SET NOT NULL;
+
+ALTER TABLE "Users" RENAME COLUMN "Login" TO "UserName";
+
+ALTER TABLE "Customers" RENAME TO "Clients";
+
+DROP TABLE "LegacyOrders";
+
+CREATE INDEX "IX_Orders_UserId" ON "Orders" ("UserId");
+
+CREATE UNIQUE INDEX "IX_Users_Email" ON "Users" ("Email");
+
+DROP INDEX "IX_Users_Name";
+
+ALTER TABLE "Orders" DROP CONSTRAINT "FK_Orders_Customers_CustomerId";
+
+ALTER TABLE "Orders" ADD CONSTRAINT "FK_Orders_Clients_ClientId" FOREIGN KEY ("ClientId") REFERENCES "Clients" ("Id") ON DELETE CASCADE;
+
+INSERT INTO "__EFMigrationsHistory" ("MigrationId", "ProductVersion")
+VALUES ('20240301120000_Shop', '8.0.4');
+
+COMMIT;
+`
+
+const sqliteScript = `BEGIN TRANSACTION;
+
+CREATE TABLE "Orders" (
+    "Id" INTEGER NOT NULL CONSTRAINT "PK_Orders" PRIMARY KEY AUTOINCREMENT,
+    "UserId" INTEGER NOT NULL,
+    "Total" TEXT NOT NULL,
+    CONSTRAINT "FK_Orders_Users_UserId" FOREIGN KEY ("UserId") REFERENCES "Users" ("Id") ON DELETE CASCADE
+);
+
+ALTER TABLE "Users" ADD "Email" TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE "Users" RENAME COLUMN "Login" TO "UserName";
+
+ALTER TABLE "Customers" RENAME TO "Clients";
+
+DROP TABLE "LegacyOrders";
+
+CREATE INDEX "IX_Orders_UserId" ON "Orders" ("UserId");
+
+DROP INDEX "IX_Users_Name";
+
+CREATE TABLE "ef_temp_Users" (
+    "Id" INTEGER NOT NULL CONSTRAINT "PK_Users" PRIMARY KEY AUTOINCREMENT,
+    "Email" TEXT NOT NULL,
+    "Name" TEXT NOT NULL,
+    "UserName" TEXT NULL
+);
+
+INSERT INTO "ef_temp_Users" ("Id", "Email", "Name", "UserName")
+SELECT "Id", "Email", IFNULL("Name", ''), "UserName"
+FROM "Users";
+
+COMMIT;
+
+PRAGMA foreign_keys = 0;
+
+BEGIN TRANSACTION;
+
+DROP TABLE "Users";
+
+ALTER TABLE "ef_temp_Users" RENAME TO "Users";
+
+COMMIT;
+
+PRAGMA foreign_keys = 1;
+
+BEGIN TRANSACTION;
+
+CREATE UNIQUE INDEX "IX_Users_Email" ON "Users" ("Email");
+
+COMMIT;
+
+INSERT INTO "__EFMigrationsHistory" ("MigrationId", "ProductVersion")
+VALUES ('20240301120000_Shop', '8.0.4');
+`
+
+describe('schemaDiff.ts', () => {
+  it('Parses a SQL Server migration script', () => {
+    expect(parseSchemaChanges(sqlServerScript)).toEqual([
+      {
+        change: 'added',
+        kind: 'table',
+        name: 'Orders',
+        details: 'Id int, UserId int, Total decimal(18,2)'
+      },
+      {
+        change: 'added',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Users_UserId',
+        details: '(UserId) → Users (Id)'
+      },
+      {
+        change: 'added',
+        kind: 'column',
+        name: 'Users.Email',
+        details: "nvarchar(256) NOT NULL DEFAULT N''"
+      },
+      {
+        change: 'removed',
+        kind: 'column',
+        name: 'Users.Nickname',
+        details: ''
+      },
+      {
+        change: 'changed',
+        kind: 'column',
+        name: 'Users.Name',
+        details: 'nvarchar(100) NOT NULL'
+      },
+      {
+        change: 'renamed',
+        kind: 'column',
+        name: 'Users.Login',
+        details: 'to UserName'
+      },
+      {
+        change: 'renamed',
+        kind: 'table',
+        name: 'Customers',
+        details: 'to Clients'
+      },
+      { change: 'removed', kind: 'table', name: 'LegacyOrders', details: '' },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Orders.IX_Orders_UserId',
+        details: '(UserId)'
+      },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Users.IX_Users_Email',
+        details: 'unique (Email)'
+      },
+      {
+        change: 'removed',
+        kind: 'index',
+        name: 'Users.IX_Users_Name',
+        details: ''
+      },
+      {
+        change: 'removed',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Customers_CustomerId',
+        details: ''
+      }
+    ])
+  })
+
+  it('Parses a PostgreSQL migration script', () => {
+    expect(parseSchemaChanges(postgresScript)).toEqual([
+      {
+        change: 'added',
+        kind: 'table',
+        name: 'Orders',
+        details: 'Id integer, UserId integer, Total numeric(18,2)'
+      },
+      {
+        change: 'added',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Users_UserId',
+        details: '(UserId) → Users (Id)'
+      },
+      {
+        change: 'added',
+        kind: 'column',
+        name: 'Users.Email',
+        details: "character varying(256) NOT NULL DEFAULT ''"
+      },
+      {
+        change: 'removed',
+        kind: 'column',
+        name: 'Users.Nickname',
+        details: ''
+      },
+      {
+        change: 'changed',
+        kind: 'column',
+        name: 'Users.Name',
+        details: 'TYPE character varying(100); SET NOT NULL'
+      },
+      {
+        change: 'renamed',
+        kind: 'column',
+        name: 'Users.Login',
+        details: 'to UserName'
+      },
+      {
+        change: 'renamed',
+        kind: 'table',
+        name: 'Customers',
+        details: 'to Clients'
+      },
+      { change: 'removed', kind: 'table', name: 'LegacyOrders', details: '' },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Orders.IX_Orders_UserId',
+        details: '(UserId)'
+      },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Users.IX_Users_Email',
+        details: 'unique (Email)'
+      },
+      { change: 'removed', kind: 'index', name: 'IX_Users_Name', details: '' },
+      {
+        change: 'removed',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Customers_CustomerId',
+        details: ''
+      },
+      {
+        change: 'added',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Clients_ClientId',
+        details: '(ClientId) → Clients (Id)'
+      }
+    ])
+  })
+
+  it('Parses a SQLite migration script with a table rebuild', () => {
+    expect(parseSchemaChanges(sqliteScript)).toEqual([
+      {
+        change: 'added',
+        kind: 'table',
+        name: 'Orders',
+        details: 'Id INTEGER, UserId INTEGER, Total TEXT'
+      },
+      {
+        change: 'added',
+        kind: 'foreign key',
+        name: 'Orders.FK_Orders_Users_UserId',
+        details: '(UserId) → Users (Id)'
+      },
+      {
+        change: 'added',
+        kind: 'column',
+        name: 'Users.Email',
+        details: "TEXT NOT NULL DEFAULT ''"
+      },
+      {
+        change: 'renamed',
+        kind: 'column',
+        name: 'Users.Login',
+        details: 'to UserName'
+      },
+      {
+        change: 'renamed',
+        kind: 'table',
+        name: 'Customers',
+        details: 'to Clients'
+      },
+      { change: 'removed', kind: 'table', name: 'LegacyOrders', details: '' },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Orders.IX_Orders_UserId',
+        details: '(UserId)'
+      },
+      { change: 'removed', kind: 'index', name: 'IX_Users_Name', details: '' },
+      {
+        change: 'changed',
+        kind: 'table',
+        name: 'Users',
+        details: 'table rebuilt'
+      },
+      {
+        change: 'added',
+        kind: 'index',
+        name: 'Users.IX_Users_Email',
+        details: 'unique (Email)'
+      }
+    ])
+  })
+})
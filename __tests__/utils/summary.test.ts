@@ -0,0 +1,15 @@
+/**
+ * Unit tests for src/utils/summary.ts
+ */
+import { escapeHtml } from '../../src/utils/summary.js'
+
+describe('summary.ts', () => {
+  it('Escapes names before they are inserted into the job summary', () => {
+    expect(escapeHtml('<img src=x onerror=alert(1)>')).toBe(
+      '&lt;img src=x onerror=alert(1)&gt;'
+    )
+    expect(escapeHtml("Users.Name: nvarchar(100) DEFAULT N'&amp;'")).toBe(
+      "Users.Name: nvarchar(100) DEFAULT N'&amp;amp;'"
+    )
+  })
+})
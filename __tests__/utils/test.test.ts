@@ -0,0 +1,104 @@
+/**
+ * Unit tests for src/utils/test.ts
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { getTestFilterArgs, resolveTestLoggers } from '../../src/utils/test.js'
+import { buildTestFilter } from '../../src/utils/testShards.js'
+
+describe('test.ts', () => {
+  const folder = path.resolve('TestResults')
+
+  it('Maps each logger to its own result file', () => {
+    expect(
+      resolveTestLoggers(
+        [
+          'trx',
+          'junit;LogFilePath=ignored',
+          'html;LogFileName=report.html',
+          'console;verbosity=normal'
+        ],
+        'TestResults'
+      )
+    ).toEqual([
+      {
+        logger: `trx;LogFileName=${path.join(folder, 'TestResults.trx')}`,
+        filePath: path.join(folder, 'TestResults.trx')
+      },
+      {
+        logger: `junit;LogFilePath=ignored;LogFileName=${path.join(folder, 'TestResults.junit.xml')}`,
+        filePath: path.join(folder, 'TestResults.junit.xml')
+      },
+      {
+        logger: `html;LogFileName=${path.join(folder, 'report.html')}`,
+        filePath: path.join(folder, 'report.html')
+      },
+      { logger: 'console;verbosity=normal', filePath: '' }
+    ])
+  })
+
+  it('Uses a trx logger when no loggers are set', () => {
+    expect(resolveTestLoggers([], 'TestResults')).toEqual([
+      {
+        logger: `trx;LogFileName=${path.join(folder, 'TestResults.trx')}`,
+        filePath: path.join(folder, 'TestResults.trx')
+      }
+    ])
+  })
+
+  it('Gives a duplicate logger its own file', () => {
+    expect(
+      resolveTestLoggers(['trx', 'trx', 'TRX'], 'TestResults').map(
+        (logger) => logger.filePath
+      )
+    ).toEqual([
+      path.join(folder, 'TestResults.trx'),
+      path.join(folder, 'TestResults.2.trx'),
+      path.join(folder, 'TestResults.3.trx')
+    ])
+  })
+
+  it('Passes a short filter on the command line', () => {
+    expect(getTestFilterArgs('', 'TestFilter.runsettings')).toEqual([])
+    expect(
+      getTestFilterArgs(
+        buildTestFilter(['App.Tests.UserTests.Creates']),
+        'TestFilter.runsettings'
+      )
+    ).toEqual(['--filter', 'FullyQualifiedName=App.Tests.UserTests.Creates'])
+  })
+
+  it('Passes the filter of a large shard through a runsettings file', () => {
+    const settingsFolder = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'test-filter-')
+    )
+    const settingsFile = path.join(
+      settingsFolder,
+      'shard',
+      'TestFilter.runsettings'
+    )
+    const tests = Array.from(
+      { length: 5000 },
+      (_, index) =>
+        `App.Tests.Orders.OrderServiceTests.Calculates_total_for_order_${index}`
+    )
+    const filter = buildTestFilter([...tests, 'Rejects(a&b)'])
+
+    try {
+      const args = getTestFilterArgs(filter, settingsFile)
+
+      expect(filter.length).toBeGreaterThan(128 * 1024)
+      expect(args).toEqual(['--settings', settingsFile])
+      const settings = fs.readFileSync(settingsFile, 'utf8')
+      expect(settings).toContain(
+        '<TestCaseFilter>FullyQualifiedName=App.Tests.Orders.OrderServiceTests.Calculates_total_for_order_0|'
+      )
+      expect(settings).toContain(
+        '|Name=Rejects\\(a\\&amp;b\\)</TestCaseFilter>'
+      )
+    } finally {
+      fs.rmSync(settingsFolder, { recursive: true, force: true })
+    }
+  })
+})
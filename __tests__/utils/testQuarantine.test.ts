@@ -0,0 +1,133 @@
+/**
+ * Unit tests for src/utils/testQuarantine.ts
+ */
+import {
+  applyQuarantine,
+  parseQuarantine
+} from '../../src/utils/testQuarantine.js'
+import { TestRunResult, parseTrx } from '../../src/utils/testResults.js'
+
+const quarantine = `[
+  { "test": "App.Tests.SyncTests.Retries", "owner": "@alice", "expires": "2024-07-31", "reason": "#12" },
+  { "test": "App.Tests.SyncTests.Times_out", "owner": "@bob", "expires": "2024-07-25" },
+  { "test": "App.Tests.MailTests.Sends", "owner": "@carol", "expires": "2024-07-01" },
+  { "test": "App.Tests.MailTests.Queues", "expires": "next week" },
+  { "test": "App.Tests.SyncTests.Retries", "owner": "@dave", "expires": "2024-08-31" }
+]`
+
+// MSTest writes only the method name to testName; the class is on the test definition.
+const mstestTrx = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" name="runner 2024-07-28 10:00:00" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult executionId="e1" testId="t1" testName="Retries" duration="00:00:01.0000000" outcome="Failed">
+      <Output>
+        <ErrorInfo>
+          <Message>Assert.AreEqual failed.</Message>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+  </Results>
+  <TestDefinitions>
+    <UnitTest name="Retries" storage="/work/app/tests/bin/debug/app.tests.dll" id="t1">
+      <Execution id="e1" />
+      <TestMethod codeBase="/work/app/tests/bin/Debug/App.Tests.dll" adapterTypeName="executor://mstestadapter/v2" className="App.Tests.SyncTests" name="Retries" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`
+
+describe('testQuarantine.ts', () => {
+  it('Validates entries and expires them after the grace period', () => {
+    const { entries, issues } = parseQuarantine(
+      quarantine,
+      7,
+      new Date('2024-07-28T12:00:00Z')
+    )
+
+    expect(entries.map((entry) => entry.test)).toEqual([
+      'App.Tests.SyncTests.Retries',
+      'App.Tests.SyncTests.Times_out'
+    ])
+    expect(entries[0]).toEqual({
+      test: 'App.Tests.SyncTests.Retries',
+      owner: '@alice',
+      expires: '2024-07-31',
+      reason: '#12',
+      line: 2
+    })
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        message:
+          'Quarantine of App.Tests.SyncTests.Times_out (owner @bob) expired on 2024-07-25. It still applies for 5 more day(s); fix the test or extend the quarantine.',
+        line: 3
+      },
+      {
+        severity: 'error',
+        message:
+          'Quarantine of App.Tests.MailTests.Sends (owner @carol) expired on 2024-07-01. Fix the test, or extend the quarantine with a new expiry date.',
+        line: 4
+      },
+      {
+        severity: 'error',
+        message:
+          'Quarantine of App.Tests.MailTests.Queues is missing owner, expires (YYYY-MM-DD).',
+        line: 5
+      },
+      {
+        severity: 'error',
+        message:
+          'Quarantine of App.Tests.SyncTests.Retries is listed more than once.',
+        line: 6
+      }
+    ])
+    expect(parseQuarantine('{}', 7).issues[0].message).toBe(
+      'The quarantine file must contain a JSON array of entries.'
+    )
+  })
+
+  it('Reports failures of quarantined tests as quarantined', () => {
+    const failed = { duration: 10, message: 'Timeout', stackTrace: '' }
+    const result: TestRunResult = {
+      total: 3,
+      passed: 1,
+      failed: 2,
+      skipped: 0,
+      flaky: 0,
+      quarantined: 0,
+      duration: 30,
+      tests: [
+        {
+          ...failed,
+          name: 'App.Tests.SyncTests.Retries(count: 3)',
+          outcome: 'failed'
+        },
+        { ...failed, name: 'App.Tests.MailTests.Sends', outcome: 'failed' },
+        { ...failed, name: 'App.Tests.MailTests.Queues', outcome: 'passed' }
+      ]
+    }
+
+    const quarantined = applyQuarantine(result, [
+      'App.Tests.SyncTests.Retries',
+      'App.Tests.MailTests.Queues'
+    ])
+
+    expect(quarantined).toMatchObject({ failed: 1, quarantined: 1 })
+    expect(quarantined.tests.map((test) => test.outcome)).toEqual([
+      'quarantined',
+      'failed',
+      'passed'
+    ])
+  })
+
+  it('Matches fully qualified names against MSTest results', () => {
+    const result = applyQuarantine(parseTrx(mstestTrx), [
+      'App.Tests.SyncTests.Retries'
+    ])
+
+    expect(result).toMatchObject({ failed: 0, quarantined: 1 })
+    expect(result.tests[0]).toMatchObject({
+      name: 'App.Tests.SyncTests.Retries',
+      outcome: 'quarantined'
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for src/utils/testResults.ts
+ */
+import {
+  findSourceLocation,
+  mergeRetryResults,
+  parseJUnit,
+  parseTrx
+} from '../../src/utils/testResults.js'
+
+const trx = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" name="runner 2024-05-01 10:00:00" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Times creation="2024-05-01T10:00:00.0000000+00:00" start="2024-05-01T10:00:00.0000000+00:00" finish="2024-05-01T10:00:02.5000000+00:00" />
+  <Results>
+    <UnitTestResult executionId="a" testId="1" testName="App.Tests.UserTests.Creates_user" duration="00:00:00.1250000" outcome="Passed" />
+    <UnitTestResult executionId="b" testId="2" testName="App.Tests.UserTests.Rejects_&quot;empty&quot;_name" duration="00:00:01.0000000" outcome="Failed">
+      <Output>
+        <ErrorInfo>
+          <Message>Assert.Equal() Failure&#xD;&#xA;Expected: 1&#xD;&#xA;Actual:   0</Message>
+          <StackTrace>   at App.Tests.UserTests.Rejects_empty_name() in /src/tests/UserTests.cs:line 42</StackTrace>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult executionId="c" testId="3" testName="App.Tests.UserTests.Pending" duration="00:00:00" outcome="NotExecuted">
+      <Output>
+        <ErrorInfo>
+          <Message>Not implemented yet</Message>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+  </Results>
+  <ResultSummary outcome="Failed">
+    <Counters total="3" executed="2" passed="1" failed="1" error="0" timeout="0" aborted="0" inconclusive="0" notExecuted="1" />
+  </ResultSummary>
+</TestRun>`
+
+const mstestTrx = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="2" name="runner 2024-05-01 10:00:00" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult executionId="e1" testId="t1" testName="Retries" computerName="runner" duration="00:00:00.5000000" outcome="Failed" testType="13cdc9d9-ddb5-4fa4-a97d-d965ccfc6d4b">
+      <Output>
+        <ErrorInfo>
+          <Message>Assert.AreEqual failed.</Message>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult executionId="e2" testId="t2" testName="Adds (1,2)" computerName="runner" duration="00:00:00.0100000" outcome="Passed" testType="13cdc9d9-ddb5-4fa4-a97d-d965ccfc6d4b" />
+  </Results>
+  <TestDefinitions>
+    <UnitTest name="Retries" storage="/work/app/tests/bin/debug/app.tests.dll" id="t1">
+      <Execution id="e1" />
+      <TestMethod codeBase="/work/app/tests/bin/Debug/App.Tests.dll" adapterTypeName="executor://mstestadapter/v2" className="App.Tests.SyncTests" name="Retries" />
+    </UnitTest>
+    <UnitTest name="Adds" storage="/work/app/tests/bin/debug/app.tests.dll" id="t2">
+      <Execution id="e2" />
+      <TestMethod codeBase="/work/app/tests/bin/Debug/App.Tests.dll" adapterTypeName="executor://mstestadapter/v2" className="App.Tests.MathTests, App.Tests, Version=1.0.0.0, Culture=neutral, PublicKeyToken=null" name="Adds" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`
+
+describe('testResults.ts', () => {
+  it('Parses counts, duration and individual results', () => {
+    const result = parseTrx(trx)
+
+    expect(result).toMatchObject({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      duration: 2500
+    })
+    expect(result.tests).toEqual([
+      {
+        name: 'App.Tests.UserTests.Creates_user',
+        outcome: 'passed',
+        duration: 125,
+        message: '',
+        stackTrace: ''
+      },
+      {
+        name: 'App.Tests.UserTests.Rejects_"empty"_name',
+        outcome: 'failed',
+        duration: 1000,
+        message: 'Assert.Equal() Failure\r\nExpected: 1\r\nActual:   0',
+        stackTrace:
+          'at App.Tests.UserTests.Rejects_empty_name() in /src/tests/UserTests.cs:line 42'
+      },
+      {
+        name: 'App.Tests.UserTests.Pending',
+        outcome: 'skipped',
+        duration: 0,
+        message: 'Not implemented yet',
+        stackTrace: ''
+      }
+    ])
+  })
+
+  it('Derives counts from the results when counters are missing', () => {
+    const result = parseTrx(
+      trx
+        .replace(/<ResultSummary[\s\S]*<\/ResultSummary>/, '')
+        .replace(/<Times[^>]*\/>/, '')
+    )
+
+    expect(result).toMatchObject({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      duration: 1125
+    })
+  })
+
+  it('Reports tests that pass on a retry as flaky', () => {
+    const retry = parseTrx(trx.replace('outcome="Failed"', 'outcome="Passed"'))
+    const result = mergeRetryResults(parseTrx(trx), [retry])
+
+    expect(result).toMatchObject({ total: 3, passed: 1, failed: 0, flaky: 1 })
+    expect(result.tests[1]).toMatchObject({
+      outcome: 'flaky',
+      message: 'Assert.Equal() Failure\r\nExpected: 1\r\nActual:   0'
+    })
+  })
+
+  it('Qualifies MSTest names with the class of their test definition', () => {
+    expect(parseTrx(mstestTrx).tests.map((test) => test.name)).toEqual([
+      'App.Tests.SyncTests.Retries',
+      'App.Tests.MathTests.Adds (1,2)'
+    ])
+    expect(parseTrx(trx).tests[0].name).toBe('App.Tests.UserTests.Creates_user')
+  })
+
+  it('Rejects documents that are not TRX', () => {
+    expect(() => parseTrx('<testsuites></testsuites>')).toThrow(
+      'The document is not a TRX test run.'
+    )
+  })
+
+  it('Parses JUnit test cases with failures and skips', () => {
+    const result = parseJUnit(`<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+  <testsuite name="App.Tests.dll" tests="3" failures="1" skipped="1" time="1.5">
+    <testcase classname="App.Tests.UserTests" name="Creates_user" time="0.25" />
+    <testcase classname="App.Tests.UserTests" name="Rejects_empty_name" time="1.0">
+      <failure type="failure" message="Assert.Equal() Failure">   at App.Tests.UserTests.Rejects_empty_name() in /src/tests/UserTests.cs:line 42</failure>
+    </testcase>
+    <testcase classname="App.Tests.UserTests" name="Pending" time="0">
+      <skipped message="Not implemented yet" />
+    </testcase>
+  </testsuite>
+</testsuites>`)
+
+    expect(result).toMatchObject({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      duration: 1500
+    })
+    expect(result.tests[1]).toEqual({
+      name: 'App.Tests.UserTests.Rejects_empty_name',
+      outcome: 'failed',
+      duration: 1000,
+      message: 'Assert.Equal() Failure',
+      stackTrace:
+        'at App.Tests.UserTests.Rejects_empty_name() in /src/tests/UserTests.cs:line 42'
+    })
+    expect(result.tests[2].message).toBe('Not implemented yet')
+  })
+
+  it('Finds the first stack frame inside the repository', () => {
+    const stackTrace = [
+      '   at Xunit.Assert.Equal[T](T expected, T actual) in /_/src/xunit.assert/Asserts/EqualityAsserts.cs:line 101',
+      '   at App.Tests.UserTests.Rejects_empty_name() in /work/app/tests/UserTests.cs:line 42',
+      '   at App.Users.Create() in /work/app/src/Users.cs:line 7'
+    ].join('\n')
+
+    expect(findSourceLocation(stackTrace, '/work/app')).toEqual({
+      file: 'tests/UserTests.cs',
+      line: 42
+    })
+    expect(findSourceLocation(stackTrace, '/elsewhere')).toBeUndefined()
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for src/utils/testShards.ts
+ */
+import {
+  buildTestFilter,
+  matchTestDurations,
+  parseTestList,
+  splitTests
+} from '../../src/utils/testShards.js'
+
+describe('testShards.ts', () => {
+  it('Parses the test list of several projects', () => {
+    const output = [
+      'Test run for /src/tests/App.Tests/bin/Debug/net8.0/App.Tests.dll (.NETCoreApp,Version=v8.0)',
+      'The following Tests are available:',
+      '    App.Tests.UserTests.Creates_user',
+      '    App.Tests.UserTests.Rejects(name: "")',
+      '    App.Tests.UserTests.Rejects(name: " ")',
+      'Test run for /src/tests/Api.Tests/bin/Debug/net8.0/Api.Tests.dll (.NETCoreApp,Version=v8.0)',
+      'The following Tests are available:',
+      '    Api.Tests.HealthTests.Returns_ok'
+    ].join('\n')
+
+    expect(parseTestList(output)).toEqual([
+      'Api.Tests.HealthTests.Returns_ok',
+      'App.Tests.UserTests.Creates_user',
+      'App.Tests.UserTests.Rejects'
+    ])
+  })
+
+  it('Balances shards by duration and covers every test once', () => {
+    const tests = ['A.One', 'A.Two', 'B.Three', 'B.Four', 'C.Five']
+    const shards = splitTests(tests, 2, { 'A.One': 9000, 'B.Three': 3000 })
+
+    expect(shards).toEqual([
+      { tests: ['A.One', 'C.Five'], duration: 15000 },
+      { tests: ['A.Two', 'B.Four', 'B.Three'], duration: 15000 }
+    ])
+    expect(
+      splitTests(tests, 3)
+        .flatMap((shard) => shard.tests)
+        .sort()
+    ).toEqual([...tests].sort())
+  })
+
+  it('Builds an escaped filter expression', () => {
+    expect(buildTestFilter(['App.Tests.Users.Creates', 'Generic(T)'])).toBe(
+      'FullyQualifiedName=App.Tests.Users.Creates|Name=Generic\\(T\\)'
+    )
+  })
+
+  it('Runs a method name declared by several classes in one shard only', () => {
+    const output = [
+      'Test run for /src/tests/App.Tests/bin/Debug/net8.0/App.Tests.dll (.NETCoreApp,Version=v8.0)',
+      'The following Tests are available:',
+      '    Creates',
+      '    Deletes',
+      '    Creates',
+      '    Updates'
+    ].join('\n')
+    const tests = parseTestList(output)
+    const durations = matchTestDurations(tests, {
+      'App.Tests.UserTests.Creates': 6000,
+      'App.Tests.OrderTests.Creates': 4000,
+      'App.Tests.UserTests.Deletes': 3000,
+      'App.Tests.UserTests.Updates': 2000
+    })
+    const shards = splitTests(tests, 2, durations)
+
+    expect(tests).toEqual(['Creates', 'Deletes', 'Updates'])
+    expect(durations).toEqual({ Creates: 10000, Deletes: 3000, Updates: 2000 })
+    expect(shards).toEqual([
+      { tests: ['Creates'], duration: 10000 },
+      { tests: ['Deletes', 'Updates'], duration: 5000 }
+    ])
+    expect(shards.map((shard) => buildTestFilter(shard.tests))).toEqual([
+      'Name=Creates',
+      'Name=Deletes|Name=Updates'
+    ])
+  })
+
+  it('Keeps the durations of fully qualified test names', () => {
+    expect(
+      matchTestDurations(['App.Tests.UserTests.Creates', 'Unknown'], {
+        'App.Tests.UserTests.Creates': 500,
+        'App.Tests.OrderTests.Creates': 700
+      })
+    ).toEqual({ 'App.Tests.UserTests.Creates': 500 })
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for src/workflows/runTests.ts
+ */
+import { jest } from '@jest/globals'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as core from '../../__fixtures__/core.js'
+import * as exec from '../../__fixtures__/exec.js'
+import type { ActionInputs } from '../../src/utils/inputs.js'
+
+const downloadBranchArtifact =
+  jest.fn<typeof import('../../src/utils/artifact.js').downloadBranchArtifact>()
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('@actions/exec', () => exec)
+jest.unstable_mockModule('../../src/utils/artifact.js', () => ({
+  downloadBranchArtifact,
+  uploadFileArtifact: jest.fn(),
+  uploadFilesArtifact: jest.fn(),
+  uploadTestArtifact: jest.fn()
+}))
+
+let reportCoverage: typeof import('../../src/workflows/runTests.js').reportCoverage
+
+const cobertura = `<?xml version="1.0" encoding="utf-8"?>
+<coverage line-rate="0.5" branch-rate="1" version="1.9" timestamp="1714557600">
+  <sources>
+    <source>/work/app/</source>
+  </sources>
+  <packages>
+    <package name="App.Core" line-rate="0.5" branch-rate="1" complexity="1">
+      <classes>
+        <class name="App.Core.Users" filename="src/App.Core/Users.cs" line-rate="0.5" branch-rate="1" complexity="1">
+          <lines>
+            <line number="10" hits="1" branch="False" />
+            <line number="11" hits="0" branch="False" />
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`
+
+describe('runTests.ts', () => {
+  let resultFolder: string
+
+  beforeAll(async () => {
+    ;({ reportCoverage } = await import('../../src/workflows/runTests.js'))
+  })
+
+  beforeEach(() => {
+    resultFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'run-tests-'))
+    const reportFolder = path.join(resultFolder, 'coverage', 'run')
+    fs.mkdirSync(reportFolder, { recursive: true })
+    fs.writeFileSync(
+      path.join(reportFolder, 'coverage.cobertura.xml'),
+      cobertura
+    )
+    process.env.GITHUB_BASE_REF = 'main'
+  })
+
+  afterEach(() => {
+    fs.rmSync(resultFolder, { recursive: true, force: true })
+    delete process.env.GITHUB_BASE_REF
+    jest.resetAllMocks()
+  })
+
+  it('Enforces the coverage thresholds when the changed lines cannot be read', async () => {
+    exec.getExecOutput.mockResolvedValue({
+      exitCode: 128,
+      stdout: '',
+      stderr: 'fatal: bad revision'
+    })
+
+    const coverage = await reportCoverage(
+      {
+        coverageThreshold: 80,
+        coverageBranchThreshold: 0,
+        coverageBaselineFile: '',
+        coverageBaselineBranch: '',
+        coverageChangedLinesThreshold: 90
+      } as ActionInputs,
+      resultFolder
+    )
+
+    expect(coverage).toEqual({
+      files: [
+        path.join(resultFolder, 'coverage', 'run', 'coverage.cobertura.xml'),
+        path.join(resultFolder, 'coverage', 'coverage-baseline.json')
+      ],
+      passed: false
+    })
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Could not compare coverage with the baseline: Failed to compare HEAD with origin/main'
+      )
+    )
+    expect(core.error).toHaveBeenCalledWith(
+      'Line coverage 50% is below the minimum of 80%.',
+      { title: 'Coverage below minimum' }
+    )
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Line coverage 50% is below the minimum of 80%.'
+    )
+  })
+
+  it('Reads the coverage baseline of a shard from the same shard artifact', async () => {
+    exec.getExecOutput.mockResolvedValue({
+      exitCode: 0,
+      stdout: '',
+      stderr: ''
+    })
+    downloadBranchArtifact.mockResolvedValue(undefined)
+
+    const coverage = await reportCoverage(
+      {
+        coverageThreshold: 0,
+        coverageBranchThreshold: 0,
+        coverageBaselineFile: '',
+        coverageBaselineBranch: 'main',
+        coverageChangedLinesThreshold: 0,
+        testShardCount: 3,
+        testShardIndex: 2
+      } as ActionInputs,
+      resultFolder
+    )
+
+    expect(coverage.passed).toBe(true)
+    expect(downloadBranchArtifact).toHaveBeenCalledWith(
+      'test-results-shard-2',
+      'main',
+      expect.any(String)
+    )
+    expect(core.warning).toHaveBeenCalledWith(
+      'No coverage baseline was found in the test-results-shard-2 artifact of main; coverage changes are reported without it.'
+    )
+  })
+})
@@ -2,8 +2,19 @@
  * The entrypoint for the action. This file logs all inputs and sequentially
  * executes the main logic from various modules.
  */
-import { getInputs } from './utils/inputs.js'
-import { runMigrations } from './workflows/runMigrations.js'
+import { ActionInputs, getInputs } from './utils/inputs.js'
+import { registerConnectionStrings } from './utils/connectionStrings.js'
+import { configureEfProject } from './utils/efRunner.js'
+import * as core from '@actions/core'
+import {
+  MigrationRestorePoint,
+  runMigrations,
+  rollbackToRestorePoint
+} from './workflows/runMigrations.js'
+import { runMigrationsCheck } from './workflows/runMigrationsCheck.js'
+import { runMigrationsBundle } from './workflows/runMigrationsBundle.js'
+import { runMigrationsLint } from './workflows/runMigrationsLint.js'
+import { runMigrationsVerify } from './workflows/runMigrationsVerify.js'
 import { runTests } from './workflows/runTests.js'
 import { runVersioning } from './workflows/runVersioning.js'
 import { runRelease } from './workflows/runRelease.js'
@@ -14,39 +25,108 @@ import { runPublish } from './workflows/runPublish.js' // Import the new publish
 
 /* istanbul ignore next */
 export async function run() {
-  const inputs = getInputs()
-
-  if (inputs.runMigrations) {
-    console.log('Running migrations...')
-    await runMigrations()
+  let inputs: ActionInputs
+  try {
+    inputs = getInputs()
+    registerConnectionStrings(inputs.connectionStrings)
+    configureEfProject({
+      project: inputs.efProject,
+      startupProject: inputs.efStartupProject,
+      configuration: inputs.efConfiguration,
+      framework: inputs.efFramework,
+      noBuild: inputs.efNoBuild
+    })
+  } catch (error) {
+    core.error('An error occurred while configuring the run.')
+    core.setFailed(error instanceof Error ? error.message : String(error))
+    return
   }
-  if (inputs.runTests) {
-    console.log('Running tests...')
-    await runTests()
-  }
-  if (inputs.runVersioning) {
-    console.log('Running versioning...')
-    await runVersioning()
+
+  if (inputs.runMigrationsCheck) {
+    console.log('Running migrations check...')
+    await runMigrationsCheck()
   }
-  if (inputs.runDockerBuild) {
-    console.log('Running Docker build...')
-    await runDockerBuild()
+  if (inputs.runMigrationsLint) {
+    console.log('Running migrations lint...')
+    await runMigrationsLint()
   }
-  if (inputs.runDockerPush) {
-    console.log('Running Docker push...')
-    await runDockerPush()
+  if (inputs.runMigrationsVerify) {
+    console.log('Running migrations verification...')
+    await runMigrationsVerify()
   }
-  if (inputs.runPublish) {
-    console.log('Running publish...')
-    await runPublish() // Add the publish step
+  let migrationRestorePoint: MigrationRestorePoint | undefined
+  if (inputs.runMigrations) {
+    console.log('Running migrations...')
+    migrationRestorePoint = await runMigrations()
   }
-  if (inputs.runRelease) {
-    console.log('Running release...')
-    await runRelease()
+
+  // Every step after the migrations reports whether it failed, so a failure can roll them back.
+  const failedSteps: string[] = []
+  let migrationsRolledBack = false
+  let step = ''
+  try {
+    if (inputs.runTests) {
+      console.log('Running tests...')
+      step = 'tests'
+      const testResult = await runTests()
+      if (!testResult.succeeded) failedSteps.push(step)
+      migrationsRolledBack = testResult.rolledBackMigrations
+    }
+    if (inputs.runVersioning) {
+      console.log('Running versioning...')
+      step = 'versioning'
+      await runVersioning()
+    }
+    if (inputs.runDockerBuild) {
+      console.log('Running Docker build...')
+      step = 'Docker build'
+      if (!(await runDockerBuild())) failedSteps.push(step)
+    }
+    if (inputs.runDockerPush) {
+      console.log('Running Docker push...')
+      step = 'Docker push'
+      if (!(await runDockerPush())) failedSteps.push(step)
+    }
+    if (inputs.runPublish) {
+      console.log('Running publish...')
+      step = 'publish'
+      await runPublish() // Add the publish step
+    }
+    if (inputs.runMigrationsBundle) {
+      console.log('Running migrations bundle...')
+      step = 'migrations bundle'
+      if (!(await runMigrationsBundle())) failedSteps.push(step)
+    }
+    if (inputs.runRelease) {
+      console.log('Running release...')
+      step = 'release'
+      await runRelease()
+    }
+    if (inputs.runChangelog) {
+      console.log('Running changelog ..')
+      step = 'changelog'
+      await runChangelog()
+    }
+  } catch {
+    // Versioning, publish, release and changelog fail the step and throw, which ends the run.
+    failedSteps.push(step)
   }
-  if (inputs.runChangelog) {
-    console.log('Running changelog ..')
-    await runChangelog()
+
+  // A later step failed after migrations succeeded: return the database to its baseline, unless
+  // the tests already rolled back the migrations they applied.
+  if (
+    inputs.onFailedRollbackMigrations &&
+    migrationRestorePoint &&
+    failedSteps.length > 0
+  ) {
+    if (migrationsRolledBack) {
+      console.log('Migrations were already rolled back after the failed tests.')
+    } else {
+      console.log(
+        `Rolling back migrations after a failed step (${failedSteps.join(', ')})...`
+      )
+      await rollbackToRestorePoint(migrationRestorePoint)
+    }
   }
 
   console.log('Action completed successfully.')
@@ -1,46 +1,50 @@
 import * as core from '@actions/core'
 import * as artifact from '@actions/artifact'
+import { getOctokit } from '@actions/github'
 import * as fs from 'fs'
+import * as path from 'path'
 
 const ARTIFACT_NAME = 'test-results'
 const ARTIFACT_RETENTION_DAYS = 7
 
 /**
- * Uploads a test result file as an artifact to GitHub Actions.
+ * Uploads the test result files as an artifact to GitHub Actions.
  *
  * This function is useful for persisting test results or other files generated during a workflow run.
  * The uploaded artifact can be downloaded later from the workflow run summary.
  *
- * @param {string} resultFilePath - The full path to the test result file. Must be a valid file path.
- * @param {string} resultFolder - The folder containing the test result file. Must be a valid directory path.
+ * @param {string[]} resultFilePaths - The full paths to the test result files, one per logger.
+ * @param {string} resultFolder - The folder containing the test result files. Must be a valid directory path.
+ * @param {string} artifactName - The artifact name; shards of a sharded run each use their own (e.g., 'test-results-shard-2').
  * @returns {Promise<void>} A promise that resolves when the artifact upload is complete.
  *
  * @throws {Error} Will throw an error if:
- * - The file specified by `resultFilePath` does not exist.
+ * - None of the files specified by `resultFilePaths` exist.
  * - The artifact upload fails due to an API or network error.
  *
  * @example
- * // Example 1: Uploading a test result file
+ * // Example 1: Uploading the TRX and HTML results of a run
  * async function example1(): Promise<void> {
- *   const resultFilePath = '/path/to/test-results.xml';
+ *   const resultFilePaths = ['/path/to/TestResults.trx', '/path/to/TestResults.html'];
  *   const resultFolder = '/path/to';
- *   await uploadTestArtifact(resultFilePath, resultFolder);
+ *   await uploadTestArtifact(resultFilePaths, resultFolder);
  * }
  *
  * @example
  * // Example 2: Handling upload errors
  * async function example2(): Promise<void> {
  *   try {
- *     const resultFilePath = '/invalid/path/to/test-results.xml';
+ *     const resultFilePaths = ['/invalid/path/to/test-results.xml'];
  *     const resultFolder = '/invalid/path';
- *     await uploadTestArtifact(resultFilePath, resultFolder);
+ *     await uploadTestArtifact(resultFilePaths, resultFolder);
  *   } catch (error: Error) {
  *     console.error(error.message); // Output: 'No test result file found to upload.' or other error messages
  *   }
  * }
  *
  * @remarks
- * - **Input Validation**: Ensure that `resultFilePath` points to an existing file and `resultFolder` is a valid directory.
+ * - **Input Validation**: Files that were not written (e.g., because the run failed early) are skipped; the others are uploaded together.
+ * - **Folder**: Files outside `resultFolder` cannot be part of the artifact and are skipped with a warning.
  * - **Artifact Retention**: The uploaded artifact will be retained for the number of days specified by `ARTIFACT_RETENTION_DAYS`.
  * - **Error Handling**: Proper error handling is implemented to log errors if the upload fails.
  * - **Use Cases**: This function is commonly used in CI/CD workflows to persist test results or other important files.
@@ -48,29 +52,170 @@ const ARTIFACT_RETENTION_DAYS = 7
  * - **Logging**: Informational and error messages are logged using `@actions/core` for better traceability in workflow logs.
  */
 export async function uploadTestArtifact(
-  resultFilePath: string,
-  resultFolder: string
+  resultFilePaths: string[],
+  resultFolder: string,
+  artifactName: string = ARTIFACT_NAME
 ): Promise<void> {
-  if (fs.existsSync(resultFilePath)) {
-    core.info(`Uploading test result file from ${resultFilePath}...`)
-    const artifactClient = new artifact.DefaultArtifactClient()
-
-    try {
-      const { id, size } = await artifactClient.uploadArtifact(
-        ARTIFACT_NAME,
-        [resultFilePath],
-        resultFolder,
-        { retentionDays: ARTIFACT_RETENTION_DAYS }
+  const rootDirectory = path.resolve(resultFolder)
+  const files = resultFilePaths.filter((filePath) => {
+    if (!fs.existsSync(filePath)) return false
+    const relative = path.relative(rootDirectory, path.resolve(filePath))
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      core.warning(
+        `Test result file ${filePath} is outside ${resultFolder} and was not uploaded.`
       )
-      core.info(`Created artifact with id: ${id} (bytes: ${size})`)
-    } catch (uploadError: unknown) {
-      if (uploadError instanceof Error) {
-        core.error(`Failed to upload test results: ${uploadError.message}`)
-      } else {
-        core.error('Failed to upload test results due to an unknown error.')
-      }
+      return false
     }
+    return true
+  })
+
+  if (files.length > 0) {
+    core.info(`Uploading test result files: ${files.join(', ')}...`)
+    await uploadFilesArtifact(artifactName, files, rootDirectory)
   } else {
     core.warning('No test result file found to upload.')
   }
 }
+
+/**
+ * Uploads a single file as a named artifact using the GitHub Actions artifact client.
+ *
+ * @param {string} artifactName - The name of the artifact (must be unique within the workflow run).
+ * @param {string} filePath - The full path to the file to upload.
+ * @param {string} rootDirectory - The directory the artifact paths are relative to.
+ * @returns {Promise<void>} A promise that resolves when the upload attempt is complete.
+ *
+ * @example
+ * await uploadFileArtifact('migration-script', './MigrationScripts/migrations.sql', './MigrationScripts');
+ *
+ * @remarks
+ * See `uploadFilesArtifact`.
+ */
+export async function uploadFileArtifact(
+  artifactName: string,
+  filePath: string,
+  rootDirectory: string
+): Promise<void> {
+  await uploadFilesArtifact(artifactName, [filePath], rootDirectory)
+}
+
+/**
+ * Uploads several files as one named artifact using the GitHub Actions artifact client.
+ *
+ * @param {string} artifactName - The name of the artifact (must be unique within the workflow run).
+ * @param {string[]} filePaths - The full paths to the files to upload.
+ * @param {string} rootDirectory - The directory the artifact paths are relative to.
+ * @returns {Promise<void>} A promise that resolves when the upload attempt is complete.
+ *
+ * @remarks
+ * - Upload failures are logged as errors and do not throw, matching `uploadTestArtifact`.
+ * - The artifact is retained for `ARTIFACT_RETENTION_DAYS` days.
+ */
+export async function uploadFilesArtifact(
+  artifactName: string,
+  filePaths: string[],
+  rootDirectory: string
+): Promise<void> {
+  const artifactClient = new artifact.DefaultArtifactClient()
+
+  try {
+    const { id, size } = await artifactClient.uploadArtifact(
+      artifactName,
+      filePaths,
+      rootDirectory,
+      { retentionDays: ARTIFACT_RETENTION_DAYS }
+    )
+    core.info(`Created artifact with id: ${id} (bytes: ${size})`)
+  } catch (uploadError: unknown) {
+    if (uploadError instanceof Error) {
+      core.error(
+        `Failed to upload artifact ${artifactName}: ${uploadError.message}`
+      )
+    } else {
+      core.error(
+        `Failed to upload artifact ${artifactName} due to an unknown error.`
+      )
+    }
+  }
+}
+
+/**
+ * Downloads an artifact from the latest successful run of the current workflow on a branch.
+ *
+ * @param {string} artifactName - The name of the artifact (e.g., 'test-results').
+ * @param {string} branch - The branch whose runs are searched (e.g., 'main').
+ * @param {string} destination - The folder the artifact is extracted to.
+ * @returns {Promise<string | undefined>} The folder the artifact was extracted to, or `undefined` when no successful run or no such artifact exists.
+ * @throws {Error} If `GITHUB_TOKEN`, `GITHUB_REPOSITORY` or `GITHUB_RUN_ID` is not defined, or an API call fails.
+ *
+ * @example
+ * const folder = await downloadBranchArtifact('test-results', 'main', './baseline');
+ *
+ * @remarks
+ * The token needs the `actions: read` permission. Artifacts expire after their retention period
+ * (`ARTIFACT_RETENTION_DAYS` for the artifacts of this action).
+ */
+export async function downloadBranchArtifact(
+  artifactName: string,
+  branch: string,
+  destination: string
+): Promise<string | undefined> {
+  const token = process.env.GITHUB_TOKEN || ''
+  const repoFull = process.env.GITHUB_REPOSITORY || ''
+  const runId = Number(process.env.GITHUB_RUN_ID)
+  if (!token || !repoFull || !runId) {
+    throw new Error(
+      'GITHUB_TOKEN, GITHUB_REPOSITORY or GITHUB_RUN_ID is not defined.'
+    )
+  }
+  const [owner, repo] = repoFull.split('/')
+  const octokit = getOctokit(token)
+
+  const { data: currentRun } = await octokit.rest.actions.getWorkflowRun({
+    owner,
+    repo,
+    run_id: runId
+  })
+  const { data: runs } = await octokit.rest.actions.listWorkflowRuns({
+    owner,
+    repo,
+    workflow_id: currentRun.workflow_id,
+    branch,
+    status: 'success',
+    per_page: 1
+  })
+  const baselineRun = runs.workflow_runs[0]
+  if (!baselineRun) {
+    core.info(`No successful run found on ${branch}.`)
+    return undefined
+  }
+
+  const findBy = {
+    token,
+    workflowRunId: baselineRun.id,
+    repositoryOwner: owner,
+    repositoryName: repo
+  }
+  const artifactClient = new artifact.DefaultArtifactClient()
+  try {
+    const { artifact: found } = await artifactClient.getArtifact(artifactName, {
+      findBy
+    })
+    const { downloadPath } = await artifactClient.downloadArtifact(found.id, {
+      path: destination,
+      findBy
+    })
+    core.info(
+      `Downloaded artifact ${artifactName} from run ${baselineRun.id} on ${branch}.`
+    )
+    return downloadPath || destination
+  } catch (error: unknown) {
+    if (error instanceof artifact.ArtifactNotFoundError) {
+      core.info(
+        `Run ${baselineRun.id} on ${branch} has no artifact named ${artifactName}.`
+      )
+      return undefined
+    }
+    throw error
+  }
+}
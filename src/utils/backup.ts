@@ -0,0 +1,277 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseConnectionString, getConnectionString } from './database.js'
+import { uploadFileArtifact } from './artifact.js'
+
+const BACKUP_EXTENSIONS: Record<string, string> = {
+  postgres: 'dump',
+  sqlserver: 'bak',
+  sqlite: 'db'
+}
+
+/**
+ * Returns whether `backupDatabase` supports the provider.
+ *
+ * @param {string} provider - The database provider.
+ * @returns {boolean} `true` for 'postgres', 'sqlserver' and 'sqlite'.
+ */
+export function isBackupSupported(provider: string): boolean {
+  return provider.toLowerCase() in BACKUP_EXTENSIONS
+}
+
+function quoteSqlServerName(name: string): string {
+  return `[${name.replace(/]/g, ']]')}]`
+}
+
+function quoteSqlString(value: string): string {
+  return `N'${value.replace(/'/g, "''")}'`
+}
+
+function sqlcmdArgs(
+  settings: ReturnType<typeof parseConnectionString>
+): string[] {
+  return [
+    '-S',
+    settings.port ? `${settings.host},${settings.port}` : settings.host,
+    '-U',
+    settings.user,
+    '-d',
+    'master',
+    '-C',
+    '-b'
+  ]
+}
+
+// sqlcmd reads the password from SQLCMDPASSWORD, which keeps it off the echoed command line.
+function sqlcmdEnv(
+  settings: ReturnType<typeof parseConnectionString>
+): Record<string, string> {
+  return {
+    ...(process.env as Record<string, string>),
+    SQLCMDPASSWORD: settings.password
+  }
+}
+
+/**
+ * Backs up a database before migrations are applied.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver' or 'sqlite'.
+ * @param {string} connectionString - The connection string of the database.
+ * @param {string} backupFolder - The folder the backup is written to. It is created if missing.
+ * @returns {Promise<string>} The absolute path of the backup file.
+ * @throws {Error} If the provider is unsupported or the backup command fails.
+ *
+ * @example
+ * const backupPath = await backupDatabase('postgres', getConnectionString('DefaultConnection'), 'DatabaseBackups')
+ *
+ * @remarks
+ * - PostgreSQL is dumped with `pg_dump --format=custom`, SQLite is copied, and SQL Server runs
+ *   `BACKUP DATABASE ... WITH INIT` through `sqlcmd`. Passwords are passed through `PGPASSWORD` and
+ *   `SQLCMDPASSWORD`, never on the command line.
+ * - SQL Server writes the file on the database server, so `backupFolder` must be a path the server
+ *   can write to. The file is only on the runner when the server runs there (or shares the folder).
+ */
+export async function backupDatabase(
+  provider: string,
+  connectionString: string,
+  backupFolder: string
+): Promise<string> {
+  const normalized = provider.toLowerCase()
+  if (!isBackupSupported(normalized)) {
+    throw new Error(
+      `Database backups are not supported for provider: ${provider}. Use one of: ${Object.keys(BACKUP_EXTENSIONS).join(', ')}.`
+    )
+  }
+
+  const settings = parseConnectionString(connectionString)
+  const timestamp = new Date().toISOString().replace(/[-:.TZ]/g, '')
+  const databaseName = path.basename(settings.database) || 'database'
+  const backupPath = path.resolve(
+    backupFolder,
+    `${databaseName}-${timestamp}.${BACKUP_EXTENSIONS[normalized]}`
+  )
+  fs.mkdirSync(path.dirname(backupPath), { recursive: true })
+  core.info(
+    `Backing up ${provider} database ${databaseName} to ${backupPath}...`
+  )
+
+  switch (normalized) {
+    case 'postgres':
+      await exec.exec(
+        'pg_dump',
+        [
+          '-h',
+          settings.host,
+          ...(settings.port ? ['-p', settings.port] : []),
+          '-U',
+          settings.user,
+          '--format=custom',
+          '--file',
+          backupPath,
+          settings.database
+        ],
+        {
+          env: {
+            ...(process.env as Record<string, string>),
+            PGPASSWORD: settings.password
+          }
+        }
+      )
+      break
+    case 'sqlserver':
+      await exec.exec(
+        'sqlcmd',
+        [
+          ...sqlcmdArgs(settings),
+          '-Q',
+          `BACKUP DATABASE ${quoteSqlServerName(settings.database)} TO DISK = ${quoteSqlString(backupPath)} WITH INIT`
+        ],
+        { env: sqlcmdEnv(settings) }
+      )
+      break
+    case 'sqlite':
+      fs.copyFileSync(settings.database, backupPath)
+      break
+  }
+
+  core.info(`Database backup written to ${backupPath}.`)
+  return backupPath
+}
+
+/**
+ * Restores a database from a backup created by `backupDatabase`.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver' or 'sqlite'.
+ * @param {string} connectionString - The connection string of the database.
+ * @param {string} backupPath - The path returned by `backupDatabase`.
+ * @returns {Promise<void>} Resolves when the database is restored.
+ * @throws {Error} If the provider is unsupported or the restore command fails.
+ *
+ * @remarks
+ * Used as the last resort when rolling back migrations fails: everything written to the database
+ * after the backup, including data, is replaced by the backup.
+ */
+export async function restoreDatabase(
+  provider: string,
+  connectionString: string,
+  backupPath: string
+): Promise<void> {
+  const settings = parseConnectionString(connectionString)
+  core.info(`Restoring ${provider} database from ${backupPath}...`)
+
+  switch (provider.toLowerCase()) {
+    case 'postgres':
+      await exec.exec(
+        'pg_restore',
+        [
+          '-h',
+          settings.host,
+          ...(settings.port ? ['-p', settings.port] : []),
+          '-U',
+          settings.user,
+          '-d',
+          settings.database,
+          '--clean',
+          '--if-exists',
+          '--single-transaction',
+          backupPath
+        ],
+        {
+          env: {
+            ...(process.env as Record<string, string>),
+            PGPASSWORD: settings.password
+          }
+        }
+      )
+      break
+    case 'sqlserver': {
+      const database = quoteSqlServerName(settings.database)
+      await exec.exec(
+        'sqlcmd',
+        [
+          ...sqlcmdArgs(settings),
+          '-Q',
+          `ALTER DATABASE ${database} SET SINGLE_USER WITH ROLLBACK IMMEDIATE; RESTORE DATABASE ${database} FROM DISK = ${quoteSqlString(backupPath)} WITH REPLACE; ALTER DATABASE ${database} SET MULTI_USER`
+        ],
+        { env: sqlcmdEnv(settings) }
+      )
+      break
+    }
+    case 'sqlite':
+      fs.copyFileSync(backupPath, settings.database)
+      break
+    default:
+      throw new Error(
+        `Database restores are not supported for provider: ${provider}.`
+      )
+  }
+
+  core.info('Database restored from backup.')
+}
+
+/**
+ * Backs up the migrated database and optionally uploads the backup as an artifact.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver' or 'sqlite'.
+ * @param {string} connectionName - The connection string name, read from `ConnectionStrings__<Name>`.
+ * @param {string} backupFolder - The folder the backup is written to.
+ * @param {boolean} upload - Whether to upload the backup as the `database-backup` artifact.
+ * @returns {Promise<string>} The absolute path of the backup file.
+ * @throws {Error} If the provider or connection string is missing, or the backup fails.
+ */
+export async function createMigrationBackup(
+  provider: string,
+  connectionName: string,
+  backupFolder: string,
+  upload: boolean
+): Promise<string> {
+  const connectionString = getConnectionString(connectionName)
+  if (!provider || !connectionString) {
+    throw new Error(
+      `Cannot back up the database: database_provider and the ConnectionStrings__${connectionName} connection string are required.`
+    )
+  }
+
+  const backupPath = await backupDatabase(
+    provider,
+    connectionString,
+    backupFolder
+  )
+  if (upload) {
+    if (fs.existsSync(backupPath)) {
+      await uploadFileArtifact(
+        'database-backup',
+        backupPath,
+        path.dirname(backupPath)
+      )
+    } else {
+      core.warning(
+        `Backup ${backupPath} is not on the runner (it was written by the database server) and was not uploaded.`
+      )
+    }
+  }
+  return backupPath
+}
+
+/**
+ * Restores the migrated database from a backup created by `createMigrationBackup`.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver' or 'sqlite'.
+ * @param {string} connectionName - The connection string name, read from `ConnectionStrings__<Name>`.
+ * @param {string} backupPath - The path returned by `createMigrationBackup`.
+ * @returns {Promise<void>} Resolves when the database is restored.
+ * @throws {Error} If the restore fails.
+ */
+export async function restoreMigrationBackup(
+  provider: string,
+  connectionName: string,
+  backupPath: string
+): Promise<void> {
+  await restoreDatabase(
+    provider,
+    getConnectionString(connectionName),
+    backupPath
+  )
+}
@@ -0,0 +1,77 @@
+import * as core from '@actions/core'
+import { parseConnectionString } from './database.js'
+
+const ENV_PREFIX = 'ConnectionStrings__'
+
+/**
+ * Parses named connection strings into `ConnectionStrings__<Name>` environment variables.
+ *
+ * @param {string} value - One `Name=ConnectionString` pair per line. Blank lines are ignored.
+ * @returns {Record<string, string>} The environment variables, keyed by `ConnectionStrings__<Name>`.
+ * @throws {Error} If a line has no name or no `=` separator.
+ *
+ * @example
+ * const env = parseConnectionStrings('Default=Host=db;Database=app\nIdentity=Host=db;Database=id')
+ * console.log(Object.keys(env)) // ['ConnectionStrings__Default', 'ConnectionStrings__Identity']
+ *
+ * @remarks
+ * Only the first `=` separates the name from the value, so connection strings keep their own
+ * `key=value` pairs. ASP.NET Core maps `ConnectionStrings__Default` to
+ * `ConnectionStrings:Default`, overriding the value from appsettings.
+ */
+export function parseConnectionStrings(value: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const line of value.split(/\r?\n/)) {
+    if (!line.trim()) continue
+    const separator = line.indexOf('=')
+    const name = separator > 0 ? line.slice(0, separator).trim() : ''
+    if (!name) {
+      throw new Error(
+        'Invalid connection_strings entry: expected one "Name=ConnectionString" per line.'
+      )
+    }
+    env[`${ENV_PREFIX}${name}`] = line.slice(separator + 1).trim()
+  }
+  return env
+}
+
+/**
+ * Registers connection strings for every EF and test command in this run.
+ *
+ * @param {string} value - The `connection_strings` input, one `Name=ConnectionString` pair per line.
+ * @returns {void}
+ * @throws {Error} If the input is malformed.
+ *
+ * @remarks
+ * Each value is masked with `core.setSecret` before it is stored in `process.env`, so it never
+ * appears in command output or logs. Its `Password` (or `Pwd`) is masked on its own as well,
+ * because database clients and EF errors print it without the rest of the connection string. `dotnet test` inherits `process.env` directly; EF commands
+ * pick the values up through `getConnectionStringEnv`.
+ */
+export function registerConnectionStrings(value: string): void {
+  const env = parseConnectionStrings(value)
+  for (const [key, connectionString] of Object.entries(env)) {
+    core.setSecret(connectionString)
+    const { password } = parseConnectionString(connectionString)
+    if (password) {
+      core.setSecret(password)
+    }
+    process.env[key] = connectionString
+    core.info(`Registered connection string ${key.slice(ENV_PREFIX.length)}.`)
+  }
+}
+
+/**
+ * Returns the `ConnectionStrings__*` variables of the current process.
+ *
+ * @returns {Record<string, string>} The variables to merge into the environment of EF commands.
+ */
+export function getConnectionStringEnv(): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(ENV_PREFIX) && value !== undefined) {
+      env[key] = value
+    }
+  }
+  return env
+}
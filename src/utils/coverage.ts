@@ -0,0 +1,578 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * Coverage of a single source line.
+ *
+ * @property hits - How often the line was executed.
+ * @property branchesCovered - The number of covered branches on the line.
+ * @property branchesValid - The number of branches on the line (0 for lines without branches).
+ */
+export interface LineCoverage {
+  hits: number
+  branchesCovered: number
+  branchesValid: number
+}
+
+/**
+ * Coverage of a single source file.
+ *
+ * @property assembly - The assembly (Cobertura package) the file belongs to.
+ * @property file - The file path, relative to the repository root with forward slashes when inside it.
+ * @property lines - The coverable lines, by line number.
+ */
+export interface FileCoverage {
+  assembly: string
+  file: string
+  lines: Record<number, LineCoverage>
+}
+
+/**
+ * Line and branch counts with their percentages.
+ *
+ * @property linesCovered - The number of executed lines.
+ * @property linesValid - The number of coverable lines.
+ * @property branchesCovered - The number of covered branches.
+ * @property branchesValid - The number of branches.
+ * @property lineRate - The line coverage in percent (100 when there are no coverable lines).
+ * @property branchRate - The branch coverage in percent (100 when there are no branches).
+ */
+export interface CoverageCounts {
+  linesCovered: number
+  linesValid: number
+  branchesCovered: number
+  branchesValid: number
+  lineRate: number
+  branchRate: number
+}
+
+/**
+ * The coverage of a test run, overall and per assembly.
+ *
+ * @property assemblies - The coverage per assembly, sorted by name.
+ */
+export interface CoverageSummary extends CoverageCounts {
+  assemblies: (CoverageCounts & { name: string })[]
+}
+
+/** Name of the folder, inside the test output folder, that coverage results are written to. */
+export const COVERAGE_FOLDER = 'coverage'
+
+/**
+ * Returns the folder `dotnet test --collect "XPlat Code Coverage"` writes its results to.
+ *
+ * @param {string} testOutputFolder - The test output folder.
+ * @returns {string} The absolute path of the coverage folder.
+ */
+export function getCoverageFolder(testOutputFolder: string): string {
+  return path.resolve(testOutputFolder, COVERAGE_FOLDER)
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = match[2]
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  }
+  return attributes
+}
+
+function toRepositoryPath(file: string, repositoryRoot: string): string {
+  const relative = path.relative(repositoryRoot, file)
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    ? relative.split(path.sep).join('/')
+    : file.replace(/\\/g, '/')
+}
+
+/**
+ * Parses a Cobertura XML report, such as `coverage.cobertura.xml` written by coverlet.
+ *
+ * @param {string} xml - The content of the report.
+ * @param {string} repositoryRoot - The repository root file paths are made relative to. Defaults to `GITHUB_WORKSPACE`, or the current directory.
+ * @returns {FileCoverage[]} The coverage per source file.
+ * @throws {Error} If the document is not a Cobertura report.
+ *
+ * @remarks
+ * - Each `package` is an assembly. Class file names are resolved against the first `source`.
+ * - Only the class-level `lines` are read; the method-level `lines` repeat them.
+ * - Branch counts come from the `condition-coverage` attribute (e.g., `50% (1/2)`).
+ * - Partial classes spread over one file are merged into one entry.
+ */
+export function parseCobertura(
+  xml: string,
+  repositoryRoot: string = process.env.GITHUB_WORKSPACE || process.cwd()
+): FileCoverage[] {
+  if (!/<coverage\b/.test(xml)) {
+    throw new Error('The document is not a Cobertura coverage report.')
+  }
+
+  const root = path.resolve(repositoryRoot)
+  const source = xml.match(/<source>([\s\S]*?)<\/source>/)?.[1].trim() || root
+  const files = new Map<string, FileCoverage>()
+
+  for (const pkg of xml.matchAll(/<package\b([^>]*)>([\s\S]*?)<\/package>/g)) {
+    const assembly = readAttributes(pkg[1]).name || ''
+    for (const cls of pkg[2].matchAll(
+      /<class\b([^>]*?)(?:\/>|>([\s\S]*?)<\/class>)/g
+    )) {
+      const fileName = readAttributes(cls[1]).filename || ''
+      const file = toRepositoryPath(path.resolve(source, fileName), root)
+      const key = `${assembly}\n${file}`
+      const coverage = files.get(key) || { assembly, file, lines: {} }
+      files.set(key, coverage)
+
+      const body = (cls[2] || '').replace(/<methods>[\s\S]*?<\/methods>/g, '')
+      for (const line of body.matchAll(/<line\b([^>]*?)\/?>/g)) {
+        const attributes = readAttributes(line[1])
+        const branches = (attributes['condition-coverage'] || '').match(
+          /\((\d+)\/(\d+)\)/
+        )
+        mergeLine(coverage.lines, Number(attributes.number), {
+          hits: Number(attributes.hits) || 0,
+          branchesCovered: branches ? Number(branches[1]) : 0,
+          branchesValid: branches ? Number(branches[2]) : 0
+        })
+      }
+    }
+  }
+  return [...files.values()]
+}
+
+function mergeLine(
+  lines: Record<number, LineCoverage>,
+  number: number,
+  line: LineCoverage
+): void {
+  const existing = lines[number]
+  lines[number] = existing
+    ? {
+        hits: existing.hits + line.hits,
+        branchesCovered: Math.max(
+          existing.branchesCovered,
+          line.branchesCovered
+        ),
+        branchesValid: Math.max(existing.branchesValid, line.branchesValid)
+      }
+    : line
+}
+
+/**
+ * Merges the coverage of several reports, e.g., one per test project.
+ *
+ * @param {FileCoverage[][]} reports - The parsed reports.
+ * @returns {FileCoverage[]} One entry per assembly and file; a line is covered when any report covers it.
+ */
+export function mergeCoverage(reports: FileCoverage[][]): FileCoverage[] {
+  const files = new Map<string, FileCoverage>()
+  for (const coverage of reports.flat()) {
+    const key = `${coverage.assembly}\n${coverage.file}`
+    const merged = files.get(key) || {
+      assembly: coverage.assembly,
+      file: coverage.file,
+      lines: {}
+    }
+    files.set(key, merged)
+    for (const [number, line] of Object.entries(coverage.lines)) {
+      mergeLine(merged.lines, Number(number), line)
+    }
+  }
+  return [...files.values()]
+}
+
+function toPercent(covered: number, valid: number): number {
+  return valid === 0 ? 100 : Math.round((covered / valid) * 10000) / 100
+}
+
+/**
+ * Counts the covered lines and branches of a set of files.
+ *
+ * @param {FileCoverage[]} files - The files to count.
+ * @returns {CoverageCounts} The counts and percentages, rounded to two decimals.
+ */
+export function countCoverage(files: FileCoverage[]): CoverageCounts {
+  const counts = {
+    linesCovered: 0,
+    linesValid: 0,
+    branchesCovered: 0,
+    branchesValid: 0
+  }
+  for (const line of files.flatMap((file) => Object.values(file.lines))) {
+    counts.linesValid++
+    if (line.hits > 0) counts.linesCovered++
+    counts.branchesCovered += line.branchesCovered
+    counts.branchesValid += line.branchesValid
+  }
+  return {
+    ...counts,
+    lineRate: toPercent(counts.linesCovered, counts.linesValid),
+    branchRate: toPercent(counts.branchesCovered, counts.branchesValid)
+  }
+}
+
+/**
+ * Summarizes coverage overall and per assembly.
+ *
+ * @param {FileCoverage[]} files - The merged coverage.
+ * @returns {CoverageSummary} The overall counts and the counts per assembly.
+ */
+export function summarizeCoverage(files: FileCoverage[]): CoverageSummary {
+  const assemblies = [...new Set(files.map((file) => file.assembly))].sort()
+  return {
+    ...countCoverage(files),
+    assemblies: assemblies.map((name) => ({
+      name,
+      ...countCoverage(files.filter((file) => file.assembly === name))
+    }))
+  }
+}
+
+/**
+ * Finds and parses the Cobertura reports of a test run.
+ *
+ * @param {string} coverageFolder - The folder coverage results were written to (see `getCoverageFolder`).
+ * @returns {{ reportFiles: string[]; coverage: FileCoverage[] }} The report files found and their merged coverage.
+ *
+ * @remarks
+ * The XPlat Code Coverage collector writes one `coverage.cobertura.xml` per test project into a
+ * subfolder named after the run ID, so the folder is searched recursively.
+ */
+export function readCoverageFolder(coverageFolder: string): {
+  reportFiles: string[]
+  coverage: FileCoverage[]
+} {
+  const reportFiles: string[] = []
+  const pending = fs.existsSync(coverageFolder) ? [coverageFolder] : []
+  while (pending.length > 0) {
+    const dir = pending.pop()!
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        pending.push(entryPath)
+      } else if (entry.name.endsWith('.cobertura.xml')) {
+        reportFiles.push(entryPath)
+      }
+    }
+  }
+
+  return {
+    reportFiles: reportFiles.sort(),
+    coverage: mergeCoverage(
+      reportFiles.map((file) => parseCobertura(fs.readFileSync(file, 'utf8')))
+    )
+  }
+}
+
+/**
+ * Sets the coverage outputs of the action.
+ *
+ * @param {CoverageSummary} summary - The coverage summary.
+ * @returns {void}
+ *
+ * @remarks
+ * Sets `coverage_line` and `coverage_branch` (percentages) and `coverage_assemblies`, a JSON object
+ * mapping each assembly to its `line` and `branch` percentages.
+ */
+export function setCoverageOutputs(summary: CoverageSummary): void {
+  core.setOutput('coverage_line', summary.lineRate)
+  core.setOutput('coverage_branch', summary.branchRate)
+  core.setOutput(
+    'coverage_assemblies',
+    JSON.stringify(
+      Object.fromEntries(
+        summary.assemblies.map((assembly) => [
+          assembly.name,
+          { line: assembly.lineRate, branch: assembly.branchRate }
+        ])
+      )
+    )
+  )
+}
+
+/**
+ * Checks the coverage against minimum percentages.
+ *
+ * @param {CoverageSummary} summary - The coverage summary.
+ * @param {number} lineThreshold - The minimum line coverage in percent; 0 disables the check.
+ * @param {number} branchThreshold - The minimum branch coverage in percent; 0 disables the check.
+ * @returns {string[]} A message per missed threshold; empty when coverage is sufficient.
+ */
+export function checkCoverageThresholds(
+  summary: CoverageSummary,
+  lineThreshold: number,
+  branchThreshold: number
+): string[] {
+  const failures: string[] = []
+  if (lineThreshold > 0 && summary.lineRate < lineThreshold) {
+    failures.push(
+      `Line coverage ${summary.lineRate}% is below the minimum of ${lineThreshold}%.`
+    )
+  }
+  if (branchThreshold > 0 && summary.branchRate < branchThreshold) {
+    failures.push(
+      `Branch coverage ${summary.branchRate}% is below the minimum of ${branchThreshold}%.`
+    )
+  }
+  return failures
+}
+
+function formatCounts(covered: number, valid: number, rate: number): string {
+  return `${rate}% (${covered}/${valid})`
+}
+
+/**
+ * Writes the coverage to the GitHub job summary.
+ *
+ * @param {string} title - The summary heading (e.g., 'Code coverage').
+ * @param {CoverageSummary} summary - The coverage summary.
+ * @returns {Promise<void>} Resolves when the summary has been written.
+ */
+export async function writeCoverageSummary(
+  title: string,
+  summary: CoverageSummary
+): Promise<void> {
+  core.summary.addHeading(title, 2)
+  core.summary.addTable([
+    [
+      { data: 'Assembly', header: true },
+      { data: 'Line coverage', header: true },
+      { data: 'Branch coverage', header: true }
+    ],
+    ...summary.assemblies.map((assembly) => [
+      assembly.name,
+      formatCounts(
+        assembly.linesCovered,
+        assembly.linesValid,
+        assembly.lineRate
+      ),
+      formatCounts(
+        assembly.branchesCovered,
+        assembly.branchesValid,
+        assembly.branchRate
+      )
+    ]),
+    [
+      '<strong>Total</strong>',
+      `<strong>${formatCounts(summary.linesCovered, summary.linesValid, summary.lineRate)}</strong>`,
+      `<strong>${formatCounts(summary.branchesCovered, summary.branchesValid, summary.branchRate)}</strong>`
+    ]
+  ])
+  await core.summary.write()
+}
+
+/** Name of the coverage baseline file written next to the Cobertura reports. */
+export const COVERAGE_BASELINE_FILE = 'coverage-baseline.json'
+
+/**
+ * The coverage of a test run in a compact form that later runs compare against.
+ *
+ * @property lineRate - The overall line coverage in percent.
+ * @property branchRate - The overall branch coverage in percent.
+ * @property files - The coverage per file, keyed by the repository-relative path.
+ */
+export interface CoverageBaseline {
+  lineRate: number
+  branchRate: number
+  files: Record<string, CoverageCounts>
+}
+
+/**
+ * The coverage change of a file touched by the current branch.
+ *
+ * @property file - The repository-relative path.
+ * @property baselineLineRate - The line coverage of the baseline, or `undefined` for new files.
+ * @property lineRate - The current line coverage.
+ * @property changedLinesCovered - The number of changed coverable lines that were executed.
+ * @property changedLinesValid - The number of changed coverable lines.
+ */
+export interface FileCoverageChange {
+  file: string
+  baselineLineRate: number | undefined
+  lineRate: number
+  changedLinesCovered: number
+  changedLinesValid: number
+}
+
+/**
+ * The coverage of the current run compared with a baseline and the changed lines.
+ *
+ * @property baselineLineRate - The overall line coverage of the baseline, or `undefined` without a baseline.
+ * @property lineRate - The overall current line coverage.
+ * @property changedLinesCovered - The number of changed coverable lines that were executed.
+ * @property changedLinesValid - The number of changed coverable lines.
+ * @property changedLinesRate - The coverage of the changed lines in percent (100 when none are coverable).
+ * @property files - The touched files that have coverable lines, sorted by path.
+ */
+export interface CoverageDelta {
+  baselineLineRate: number | undefined
+  lineRate: number
+  changedLinesCovered: number
+  changedLinesValid: number
+  changedLinesRate: number
+  files: FileCoverageChange[]
+}
+
+function groupByFile(files: FileCoverage[]): Map<string, FileCoverage[]> {
+  const groups = new Map<string, FileCoverage[]>()
+  for (const coverage of files) {
+    groups.set(coverage.file, [...(groups.get(coverage.file) || []), coverage])
+  }
+  return groups
+}
+
+/**
+ * Creates the baseline that later runs compare their coverage against.
+ *
+ * @param {FileCoverage[]} files - The merged coverage of the run.
+ * @returns {CoverageBaseline} The overall and per-file coverage.
+ */
+export function createCoverageBaseline(
+  files: FileCoverage[]
+): CoverageBaseline {
+  const { lineRate, branchRate } = countCoverage(files)
+  return {
+    lineRate,
+    branchRate,
+    files: Object.fromEntries(
+      [...groupByFile(files)].map(([file, entries]) => [
+        file,
+        countCoverage(entries)
+      ])
+    )
+  }
+}
+
+/**
+ * Reads a coverage baseline file.
+ *
+ * @param {string} filePath - Path to a file written by a previous run (`coverage-baseline.json`) or committed to the repository.
+ * @returns {CoverageBaseline} The baseline.
+ * @throws {Error} If the file cannot be read or has no `lineRate` and `files`.
+ */
+export function readCoverageBaseline(filePath: string): CoverageBaseline {
+  const baseline = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  if (typeof baseline?.lineRate !== 'number' || !baseline.files) {
+    throw new Error(`${filePath} is not a coverage baseline.`)
+  }
+  return baseline as CoverageBaseline
+}
+
+/**
+ * Compares the coverage of the current run with a baseline and measures the coverage of changed lines.
+ *
+ * @param {FileCoverage[]} files - The merged coverage of the current run.
+ * @param {CoverageBaseline | undefined} baseline - The baseline, if one is available.
+ * @param {Record<string, number[]>} changedLines - The changed line numbers per repository-relative file (see `getChangedLines`).
+ * @returns {CoverageDelta} The overall change and the change per touched file.
+ *
+ * @example
+ * const delta = compareCoverage(coverage, readCoverageBaseline('coverage-baseline.json'), await getChangedLines('main'))
+ * // delta.changedLinesRate: 62.5
+ *
+ * @remarks
+ * Changed lines that are not coverable (comments, declarations, files outside the covered
+ * assemblies) are ignored, so only executable new code counts towards `changedLinesRate`.
+ */
+export function compareCoverage(
+  files: FileCoverage[],
+  baseline: CoverageBaseline | undefined,
+  changedLines: Record<string, number[]>
+): CoverageDelta {
+  const groups = groupByFile(files)
+  const changes: FileCoverageChange[] = []
+
+  for (const [file, lineNumbers] of Object.entries(changedLines)) {
+    const entries = groups.get(file)
+    if (!entries) continue
+    let changedLinesCovered = 0
+    let changedLinesValid = 0
+    for (const number of lineNumbers) {
+      const lines = entries
+        .map((entry) => entry.lines[number])
+        .filter((line) => line)
+      if (lines.length === 0) continue
+      changedLinesValid++
+      if (lines.some((line) => line.hits > 0)) changedLinesCovered++
+    }
+    changes.push({
+      file,
+      baselineLineRate: baseline?.files[file]?.lineRate,
+      lineRate: countCoverage(entries).lineRate,
+      changedLinesCovered,
+      changedLinesValid
+    })
+  }
+
+  const changedLinesCovered = changes.reduce(
+    (sum, change) => sum + change.changedLinesCovered,
+    0
+  )
+  const changedLinesValid = changes.reduce(
+    (sum, change) => sum + change.changedLinesValid,
+    0
+  )
+  return {
+    baselineLineRate: baseline?.lineRate,
+    lineRate: countCoverage(files).lineRate,
+    changedLinesCovered,
+    changedLinesValid,
+    changedLinesRate: toPercent(changedLinesCovered, changedLinesValid),
+    files: changes.sort((a, b) => a.file.localeCompare(b.file))
+  }
+}
+
+function formatDelta(baselineRate: number, rate: number): string {
+  const delta = Math.round((rate - baselineRate) * 100) / 100
+  return delta > 0 ? `+${delta}` : `${delta}`
+}
+
+/**
+ * Writes the coverage changes to the GitHub job summary.
+ *
+ * @param {string} title - The summary heading (e.g., 'Coverage changes').
+ * @param {CoverageDelta} delta - The comparison with the baseline.
+ * @returns {Promise<void>} Resolves when the summary has been written.
+ */
+export async function writeCoverageDeltaSummary(
+  title: string,
+  delta: CoverageDelta
+): Promise<void> {
+  core.summary.addHeading(title, 2)
+  const overall =
+    delta.baselineLineRate === undefined
+      ? `${delta.lineRate}% (no baseline)`
+      : `${delta.baselineLineRate}% → ${delta.lineRate}% (${formatDelta(delta.baselineLineRate, delta.lineRate)})`
+  core.summary.addRaw(
+    `<p>Line coverage: ${overall}. Changed lines covered: ${formatCounts(delta.changedLinesCovered, delta.changedLinesValid, delta.changedLinesRate)}.</p>`,
+    true
+  )
+  if (delta.files.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'File', header: true },
+        { data: 'Baseline', header: true },
+        { data: 'Current', header: true },
+        { data: 'Change', header: true },
+        { data: 'Changed lines covered', header: true }
+      ],
+      ...delta.files.map((change) => [
+        `<code>${change.file}</code>`,
+        change.baselineLineRate === undefined
+          ? '–'
+          : `${change.baselineLineRate}%`,
+        `${change.lineRate}%`,
+        change.baselineLineRate === undefined
+          ? delta.baselineLineRate === undefined
+            ? '–'
+            : 'new'
+          : formatDelta(change.baselineLineRate, change.lineRate),
+        `${change.changedLinesCovered}/${change.changedLinesValid}`
+      ])
+    ])
+  }
+  await core.summary.write()
+}
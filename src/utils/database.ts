@@ -0,0 +1,237 @@
+import * as exec from '@actions/exec'
+
+/**
+ * Connection settings parsed from an ADO.NET connection string.
+ *
+ * @property host - The server host name.
+ * @property port - The server port, or an empty string for the provider default.
+ * @property database - The database name (or the file path for SQLite).
+ * @property user - The user name.
+ * @property password - The password.
+ */
+export interface ConnectionSettings {
+  host: string
+  port: string
+  database: string
+  user: string
+  password: string
+}
+
+/**
+ * Parses an ADO.NET connection string into its connection settings.
+ *
+ * @param {string} connectionString - The connection string (e.g., 'Host=db;Port=5432;Database=app;Username=app;Password=secret').
+ * @returns {ConnectionSettings} The parsed settings. Missing values are empty strings.
+ *
+ * @example
+ * const settings = parseConnectionString('Server=tcp:db,1433;Database=app;User Id=sa;Password=secret')
+ * console.log(settings.host, settings.port) // 'db' '1433'
+ *
+ * @remarks
+ * Keys are matched case-insensitively and the common aliases of Npgsql, SqlClient, MySqlConnector
+ * and Microsoft.Data.Sqlite are understood. A `host,port` server value is split into both fields.
+ */
+export function parseConnectionString(
+  connectionString: string
+): ConnectionSettings {
+  const values: Record<string, string> = {}
+  for (const part of connectionString.split(';')) {
+    const separator = part.indexOf('=')
+    if (separator <= 0) continue
+    values[part.slice(0, separator).trim().toLowerCase()] = part
+      .slice(separator + 1)
+      .trim()
+  }
+  const pick = (...keys: string[]) =>
+    keys.map((key) => values[key]).find((value) => value !== undefined) || ''
+
+  let host = pick('host', 'server', 'data source', 'address', 'addr')
+  let port = pick('port')
+  host = host.replace(/^tcp:/i, '')
+  const commaIndex = host.indexOf(',')
+  if (commaIndex !== -1) {
+    port = port || host.slice(commaIndex + 1).trim()
+    host = host.slice(0, commaIndex).trim()
+  }
+
+  return {
+    host,
+    port,
+    database: pick('database', 'initial catalog', 'data source'),
+    user: pick('username', 'user id', 'userid', 'user', 'uid'),
+    password: pick('password', 'pwd')
+  }
+}
+
+/**
+ * Resolves a named connection string from the `ConnectionStrings__<Name>` environment variable.
+ *
+ * @param {string} name - The connection string name (e.g., 'DefaultConnection').
+ * @returns {string} The connection string, or an empty string if it is not set.
+ */
+export function getConnectionString(name: string): string {
+  return process.env[`ConnectionStrings__${name}`] || ''
+}
+
+// Schema query shared by the providers that implement information_schema.
+const INFORMATION_SCHEMA_QUERY = `SELECT 'column', c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable, COALESCE(CAST(c.character_maximum_length AS CHAR(20)), '') FROM information_schema.columns c WHERE c.table_schema NOT IN ('information_schema', 'pg_catalog', 'sys', 'mysql', 'performance_schema') UNION ALL SELECT 'constraint', t.table_schema, t.table_name, t.constraint_name, t.constraint_type, '', '' FROM information_schema.table_constraints t WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog', 'sys', 'mysql', 'performance_schema')`
+
+/**
+ * Runs SQL through the provider's command-line client.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver', 'mysql' or 'sqlite'.
+ * @param {string} connectionString - The connection string of the database.
+ * @param {{ query?: string; file?: string }} sql - Either an inline query or the path of a `.sql` file.
+ * @returns {Promise<string>} The standard output: one row per line, columns separated by `|` (tabs for MySQL).
+ * @throws {Error} If the provider is unsupported or the statement fails.
+ *
+ * @example
+ * const rows = await executeSql('postgres', getConnectionString('DefaultConnection'), { query: 'SELECT 1' })
+ *
+ * @remarks
+ * The client (`psql`, `sqlcmd`, `mysql` or `sqlite3`) must be available on the runner. Every client
+ * is told to stop at the first error, so a failing statement fails the call.
+ */
+export async function executeSql(
+  provider: string,
+  connectionString: string,
+  sql: { query?: string; file?: string }
+): Promise<string> {
+  const settings = parseConnectionString(connectionString)
+  let command: string
+  let args: string[]
+  let env: Record<string, string> = {}
+
+  switch (provider.toLowerCase()) {
+    case 'postgres':
+      command = 'psql'
+      args = [
+        '-h',
+        settings.host,
+        ...(settings.port ? ['-p', settings.port] : []),
+        '-U',
+        settings.user,
+        '-d',
+        settings.database,
+        '-At',
+        '-F',
+        '|',
+        '-v',
+        'ON_ERROR_STOP=1',
+        ...(sql.file ? ['-f', sql.file] : ['-c', sql.query || ''])
+      ]
+      env = { PGPASSWORD: settings.password }
+      break
+    case 'sqlserver':
+      command = 'sqlcmd'
+      args = [
+        '-S',
+        settings.port ? `${settings.host},${settings.port}` : settings.host,
+        '-U',
+        settings.user,
+        '-d',
+        settings.database,
+        '-C',
+        '-b',
+        '-h',
+        '-1',
+        '-W',
+        '-s',
+        '|',
+        ...(sql.file ? ['-i', sql.file] : ['-Q', sql.query || ''])
+      ]
+      env = { SQLCMDPASSWORD: settings.password }
+      break
+    case 'mysql':
+      command = 'mysql'
+      args = [
+        '-h',
+        settings.host,
+        ...(settings.port ? ['-P', settings.port] : []),
+        '-u',
+        settings.user,
+        '-D',
+        settings.database,
+        '-N',
+        '-B',
+        '-e',
+        sql.file ? `source ${sql.file}` : sql.query || ''
+      ]
+      env = { MYSQL_PWD: settings.password }
+      break
+    case 'sqlite':
+      command = 'sqlite3'
+      args = [
+        '-bail',
+        settings.database,
+        sql.file ? `.read ${sql.file}` : sql.query || ''
+      ]
+      break
+    default:
+      throw new Error(`Unsupported database provider: ${provider}`)
+  }
+
+  const { stdout } = await exec.getExecOutput(command, args, {
+    silent: true,
+    env: { ...(process.env as Record<string, string>), ...env }
+  })
+  return stdout
+}
+
+/**
+ * Captures a textual snapshot of the database schema.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver', 'mysql' or 'sqlite'.
+ * @param {string} connectionString - The connection string of the database.
+ * @returns {Promise<string[]>} One sorted line per column, constraint or (for SQLite) schema statement.
+ * @throws {Error} If the provider is unsupported or the client command fails.
+ *
+ * @example
+ * const before = await captureSchema('postgres', getConnectionString('DefaultConnection'))
+ *
+ * @remarks
+ * The snapshot uses the provider's command-line client (see `executeSql`). It is meant for
+ * comparing two states of the same database, not for reproducing the schema.
+ */
+export async function captureSchema(
+  provider: string,
+  connectionString: string
+): Promise<string[]> {
+  let query: string
+  switch (provider.toLowerCase()) {
+    case 'sqlserver':
+      query = `SET NOCOUNT ON; ${INFORMATION_SCHEMA_QUERY}`
+      break
+    case 'sqlite':
+      query = '.schema'
+      break
+    default:
+      query = INFORMATION_SCHEMA_QUERY
+  }
+
+  const stdout = await executeSql(provider, connectionString, { query })
+  return stdout
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .sort()
+}
+
+/**
+ * Compares two schema snapshots.
+ *
+ * @param {string[]} before - The snapshot taken first.
+ * @param {string[]} after - The snapshot taken later.
+ * @returns {{ added: string[]; removed: string[] }} Lines only present in `after` and only present in `before`.
+ */
+export function diffSchemas(
+  before: string[],
+  after: string[]
+): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  return {
+    added: after.filter((line) => !beforeSet.has(line)),
+    removed: before.filter((line) => !afterSet.has(line))
+  }
+}
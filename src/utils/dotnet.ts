@@ -101,3 +101,59 @@ export async function publishDotnetProject(
     throw new Error(`Error during .NET project publish: ${error}`)
   }
 }
+
+/**
+ * A runtime that .NET artifacts are published for.
+ *
+ * @property name - Short platform name used for folders and asset names (e.g., 'linux').
+ * @property runtime - The .NET runtime identifier (e.g., 'linux-x64').
+ * @property outputDir - The folder the published binaries are written to.
+ */
+export interface PublishTarget {
+  name: string
+  runtime: string
+  outputDir: string
+}
+
+/**
+ * Returns the runtimes to publish for, based on the per-platform publish flags.
+ *
+ * @param {boolean} publishLinux - Whether to include Linux (`linux-x64`).
+ * @param {boolean} publishWindows - Whether to include Windows (`win-x64`).
+ * @param {boolean} publishMac - Whether to include macOS (`osx-x64`).
+ * @returns {PublishTarget[]} The selected targets, in Linux, Windows, macOS order.
+ *
+ * @example
+ * for (const target of getPublishTargets(true, false, false)) {
+ *   await publishDotnetProject('Release', target.outputDir, ['--self-contained', '--runtime', target.runtime]);
+ * }
+ */
+export function getPublishTargets(
+  publishLinux: boolean,
+  publishWindows: boolean,
+  publishMac: boolean
+): PublishTarget[] {
+  const targets: PublishTarget[] = []
+  if (publishLinux) {
+    targets.push({
+      name: 'linux',
+      runtime: 'linux-x64',
+      outputDir: './publish/linux'
+    })
+  }
+  if (publishWindows) {
+    targets.push({
+      name: 'windows',
+      runtime: 'win-x64',
+      outputDir: './publish/windows'
+    })
+  }
+  if (publishMac) {
+    targets.push({
+      name: 'macos',
+      runtime: 'osx-x64',
+      outputDir: './publish/macos'
+    })
+  }
+  return targets
+}
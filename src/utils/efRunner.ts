@@ -0,0 +1,181 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as path from 'path'
+import { installDotnetEfLocally } from './dotnet.js'
+import { getConnectionStringEnv } from './connectionStrings.js'
+
+/**
+ * Project options passed to every `dotnet ef` command.
+ *
+ * @property project - The project that contains the DbContext and migrations (`--project`).
+ * @property startupProject - The project that is built and run to create the DbContext (`--startup-project`).
+ * @property configuration - The build configuration (`--configuration`).
+ * @property framework - The target framework (`--framework`).
+ * @property noBuild - Whether to skip building the projects (`--no-build`).
+ */
+export interface EfProjectOptions {
+  project: string
+  startupProject: string
+  configuration: string
+  framework: string
+  noBuild: boolean
+}
+
+/**
+ * Where and how a `dotnet ef` command runs.
+ *
+ * @property envName - The ASP.NET Core environment name.
+ * @property home - Home directory to set for environment variables.
+ * @property migrationsFolder - The working directory of the command.
+ * @property dotnetRoot - Path to the dotnet executable.
+ * @property useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
+ * @property context - The DbContext to target. When empty, `--context` is omitted.
+ */
+export interface EfCommandSettings {
+  envName: string
+  home: string
+  migrationsFolder: string
+  dotnetRoot: string
+  useGlobalDotnetEf: boolean
+  context?: string
+}
+
+let projectOptions: EfProjectOptions = {
+  project: '',
+  startupProject: '',
+  configuration: '',
+  framework: '',
+  noBuild: false
+}
+let dotnetEfInstalled = false
+
+/**
+ * Sets the project options used by every subsequent `dotnet ef` command.
+ *
+ * @param {Partial<EfProjectOptions>} options - The options to set; omitted options keep their value.
+ * @returns {void}
+ *
+ * @example
+ * configureEfProject({ project: 'src/Infrastructure', startupProject: 'src/Web', noBuild: true })
+ *
+ * @remarks
+ * Project paths are resolved against the current working directory (the workspace), not the
+ * migrations folder the commands run in.
+ */
+export function configureEfProject(options: Partial<EfProjectOptions>): void {
+  projectOptions = { ...projectOptions, ...options }
+}
+
+/**
+ * Builds the project arguments for a `dotnet ef` command.
+ *
+ * @returns {string[]} `--project`, `--startup-project`, `--configuration`, `--framework` and `--no-build`, as configured.
+ */
+export function getEfProjectArgs(): string[] {
+  const { project, startupProject, configuration, framework, noBuild } =
+    projectOptions
+  return [
+    ...(project ? ['--project', path.resolve(project)] : []),
+    ...(startupProject
+      ? ['--startup-project', path.resolve(startupProject)]
+      : []),
+    ...(configuration ? ['--configuration', configuration] : []),
+    ...(framework ? ['--framework', framework] : []),
+    ...(noBuild ? ['--no-build'] : [])
+  ]
+}
+
+/**
+ * Installs the local dotnet-ef tool unless it was already installed in this run.
+ *
+ * @param {boolean} useGlobalDotnetEf - If true, nothing is installed.
+ * @returns {Promise<void>} Resolves when the tool is available.
+ * @throws {Error} If the installation fails.
+ */
+export async function ensureDotnetEf(
+  useGlobalDotnetEf: boolean
+): Promise<void> {
+  if (useGlobalDotnetEf || dotnetEfInstalled) {
+    return
+  }
+  core.info('Ensuring local dotnet-ef tool is installed...')
+  await installDotnetEfLocally()
+  dotnetEfInstalled = true
+}
+
+/**
+ * Builds the executable and arguments of a `dotnet ef` command.
+ *
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
+ * @param {string[]} args - The EF arguments (e.g., `['database', 'update']`).
+ * @param {string} context - The DbContext to target. When empty, `--context` is omitted.
+ * @returns {{ command: string; args: string[] }} The executable and its full argument list.
+ *
+ * @example
+ * const { command, args } = getEfCommand('/usr/bin/dotnet', false, ['migrations', 'list'], 'AppDbContext')
+ * // command: '/usr/bin/dotnet'
+ * // args: ['tool', 'run', 'dotnet-ef', 'migrations', 'list', '--context', 'AppDbContext']
+ */
+export function getEfCommand(
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  args: string[],
+  context: string = ''
+): { command: string; args: string[] } {
+  const efArgs = [
+    ...args,
+    ...(context ? ['--context', context] : []),
+    ...getEfProjectArgs()
+  ]
+  return useGlobalDotnetEf
+    ? { command: 'dotnet-ef', args: efArgs }
+    : { command: dotnetRoot, args: ['tool', 'run', 'dotnet-ef', ...efArgs] }
+}
+
+/**
+ * Runs a `dotnet ef` command with the shared environment, project options and working directory.
+ *
+ * @param {EfCommandSettings} settings - The environment, folder, tool and DbContext to use.
+ * @param {string[]} args - The EF arguments (e.g., `['migrations', 'list', '--json']`).
+ * @param {exec.ExecOptions} options - Extra exec options (e.g., `ignoreReturnCode`).
+ * @returns {Promise<exec.ExecOutput>} The exit code and captured output.
+ * @throws {Error} If the command fails and `ignoreReturnCode` is not set.
+ *
+ * @example
+ * const { stdout } = await runEf(
+ *   { envName: 'Test', home: '/home/runner', migrationsFolder: './src', dotnetRoot: '/usr/bin/dotnet', useGlobalDotnetEf: false },
+ *   ['migrations', 'list', '--json']
+ * )
+ *
+ * @remarks
+ * - The local tool is installed on first use only (see `ensureDotnetEf`).
+ * - The environment sets `DOTNET_ROOT`, `HOME`, `ASPNETCORE_ENVIRONMENT` and the registered
+ *   `ConnectionStrings__*` variables.
+ */
+export async function runEf(
+  settings: EfCommandSettings,
+  args: string[],
+  options: exec.ExecOptions = {}
+): Promise<exec.ExecOutput> {
+  await ensureDotnetEf(settings.useGlobalDotnetEf)
+
+  const env: Record<string, string> = {
+    DOTNET_ROOT: settings.dotnetRoot,
+    HOME: process.env.HOME || settings.home,
+    ASPNETCORE_ENVIRONMENT: settings.envName,
+    ...getConnectionStringEnv()
+  }
+  const { command, args: efArgs } = getEfCommand(
+    settings.dotnetRoot,
+    settings.useGlobalDotnetEf,
+    args,
+    settings.context
+  )
+
+  return exec.getExecOutput(command, efArgs, {
+    cwd: settings.migrationsFolder,
+    env,
+    ...options
+  })
+}
@@ -1,4 +1,6 @@
+import * as core from '@actions/core'
 import * as exec from '@actions/exec'
+import { context } from '@actions/github'
 
 /**
  * Retrieves the latest commit subject.
@@ -41,6 +43,40 @@ export async function getLatestCommitMessage(): Promise<string> {
   return stdout.trim()
 }
 
+/**
+ * Retrieves the message of the commit that triggered the run.
+ *
+ * @returns {Promise<string>} The commit message.
+ * @throws {Error} If the command fails.
+ * @remarks
+ * On `pull_request` runs `HEAD` is a synthetic merge commit, so the message of the pull request's
+ * head commit is read instead. That commit is fetched first, because a shallow checkout does not
+ * contain it. If it cannot be read, the message of `HEAD` is returned with a warning.
+ */
+export async function getHeadCommitMessage(): Promise<string> {
+  const headSha: string | undefined = context.payload.pull_request?.head?.sha
+  if (!headSha) {
+    return getLatestCommitMessage()
+  }
+
+  await exec.getExecOutput('git', ['fetch', '--depth=1', 'origin', headSha], {
+    ignoreReturnCode: true,
+    silent: true
+  })
+  const { stdout, stderr, exitCode } = await exec.getExecOutput(
+    'git',
+    ['log', '-1', '--pretty=%B', headSha],
+    { ignoreReturnCode: true, silent: true }
+  )
+  if (exitCode !== 0) {
+    core.warning(
+      `Could not read the pull request head commit ${headSha}; using the merge commit message instead: ${stderr.trim()}`
+    )
+    return getLatestCommitMessage()
+  }
+  return stdout.trim()
+}
+
 /**
  * Extracts version from a commit message in the format "bump version to x.x.x.x".
  *
@@ -262,3 +298,127 @@ export async function gitReset(
     )
   }
 }
+
+/**
+ * Returns the release tag before the given one.
+ *
+ * @param {string} currentTag - The tag of the release being created (e.g., '1.2.0.0').
+ * @returns {Promise<string>} The previous tag by version order, or an empty string if there is none.
+ * @example
+ * const previousTag = await getPreviousReleaseTag('1.2.0.0'); // '1.1.0.0'
+ * @remarks
+ * Tags are fetched first, so the result does not depend on the checkout depth. When `currentTag`
+ * does not exist yet, the newest tag is returned.
+ */
+export async function getPreviousReleaseTag(
+  currentTag: string
+): Promise<string> {
+  await exec.getExecOutput('git', ['fetch', '--tags'], {
+    ignoreReturnCode: true
+  })
+  const { stdout } = await exec.getExecOutput('git', [
+    'tag',
+    '--list',
+    '--sort=-v:refname'
+  ])
+  const tags = stdout
+    .split('\n')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag)
+  const index = tags.indexOf(currentTag)
+  return (index === -1 ? tags[0] : tags[index + 1]) || ''
+}
+
+/**
+ * Lists the files below a folder at a given commit, tag or branch.
+ *
+ * @param {string} ref - The Git ref (e.g., '1.1.0.0').
+ * @param {string} folder - The folder, relative to the working directory.
+ * @returns {Promise<string[]>} The file paths, relative to the repository root.
+ * @throws {Error} If the ref does not exist.
+ */
+export async function listFilesAtRef(
+  ref: string,
+  folder: string
+): Promise<string[]> {
+  const result = await exec.getExecOutput(
+    'git',
+    ['ls-tree', '-r', '--name-only', ref, '--', folder || '.'],
+    { ignoreReturnCode: true, silent: true }
+  )
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list files at ${ref}: ${result.stderr}`)
+  }
+  return result.stdout
+    .split('\n')
+    .map((file) => file.trim())
+    .filter((file) => file)
+}
+
+/**
+ * Parses the added lines of a unified diff.
+ *
+ * @param {string} diff - The output of `git diff --unified=0`.
+ * @returns {Record<string, number[]>} The added or changed line numbers per file, relative to the repository root.
+ * @example
+ * parseChangedLines('+++ b/src/App.cs\n@@ -10,0 +11,2 @@\n+a\n+b\n'); // { 'src/App.cs': [11, 12] }
+ * @remarks
+ * Deleted files are skipped, since none of their lines exist anymore.
+ */
+export function parseChangedLines(diff: string): Record<string, number[]> {
+  const changedLines: Record<string, number[]> = {}
+  let file = ''
+  let previous = ''
+  for (const line of diff.split('\n')) {
+    const isHeader = line.startsWith('+++ ') && previous.startsWith('--- ')
+    previous = line
+    if (isHeader) {
+      const target = line.slice(4).trim()
+      file = target.startsWith('b/') ? target.slice(2) : ''
+      continue
+    }
+    const hunk = line.match(/^@@ -\S+ \+(\d+)(?:,(\d+))? @@/)
+    if (file && hunk) {
+      const start = Number(hunk[1])
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2])
+      const lines = (changedLines[file] ||= [])
+      for (let number = start; number < start + count; number++) {
+        lines.push(number)
+      }
+    }
+  }
+  return changedLines
+}
+
+/**
+ * Lists the lines added or changed on the current branch since it diverged from a base branch.
+ *
+ * @param {string} baseBranch - The base branch (e.g., 'main').
+ * @returns {Promise<Record<string, number[]>>} The changed line numbers per file, relative to the repository root.
+ * @throws {Error} If the base branch cannot be compared with `HEAD`.
+ * @remarks
+ * The base branch is fetched first. The comparison needs the merge base, so shallow checkouts
+ * should use `fetch-depth: 0`.
+ */
+export async function getChangedLines(
+  baseBranch: string
+): Promise<Record<string, number[]>> {
+  await exec.getExecOutput(
+    'git',
+    ['fetch', '--no-tags', 'origin', baseBranch],
+    {
+      ignoreReturnCode: true
+    }
+  )
+  const result = await exec.getExecOutput(
+    'git',
+    ['diff', '--unified=0', '--no-color', `origin/${baseBranch}...HEAD`],
+    { ignoreReturnCode: true, silent: true }
+  )
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Failed to compare HEAD with origin/${baseBranch}: ${result.stderr}`
+    )
+  }
+  return parseChangedLines(result.stdout)
+}
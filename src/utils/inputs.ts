@@ -4,10 +4,33 @@
  * @property homeDirectory - Home directory for the action.
  * @property dotnetRoot - Path to the .NET root directory.
  * @property useGlobalDotnetEf - Whether to use the global dotnet-ef CLI.
+ * @property connectionStrings - Named connection strings, one `Name=ConnectionString` pair per line.
+ * @property databaseProvider - Database provider used for schema snapshots ('postgres', 'sqlserver', 'mysql', 'sqlite').
+ * @property databaseConnectionName - Name of the connection string pointing at the migrated database.
  * @property runMigrations - Whether to run migrations.
  * @property migrationsFolder - Path to the migrations folder.
+ * @property runMigrationsCheck - Whether to fail when the EF model has changes without a migration.
+ * @property runMigrationsLint - Whether to fail on out-of-order migrations or conflicting model snapshots.
+ * @property runMigrationsVerify - Whether to verify that pending migrations survive an up/down/up round trip.
+ * @property migrationsPlan - Whether to only plan migrations and write the plan to the job summary.
+ * @property runMigrationsBundle - Whether to build self-contained EF Core migration bundles.
  * @property envName - Environment name for migrations.
- * @property onFailedRollbackMigrations - Whether to rollback migrations if tests fail.
+ * @property migrationsContexts - Comma-separated list of DbContext names to migrate.
+ * @property generateMigrationScript - Whether to generate and upload an idempotent SQL script before applying migrations.
+ * @property migrationScriptFolder - Folder where generated migration scripts are written.
+ * @property schemaDiffReport - Whether to post the schema changes of newly applied migrations to the job summary.
+ * @property seedCommand - Command run after migrations to seed data (e.g., `dotnet run -- seed`).
+ * @property seedScriptsFolder - Folder of `.sql` seed scripts run once each, in file name order, after migrations.
+ * @property backupBeforeMigrations - Whether to back up the database before migrations are applied.
+ * @property backupFolder - Folder the database backup is written to.
+ * @property uploadBackup - Whether to upload the database backup as an artifact.
+ * @property efProject - Project that contains the DbContext and migrations (`--project`).
+ * @property efStartupProject - Project that is built and run to create the DbContext (`--startup-project`).
+ * @property efConfiguration - Build configuration for `dotnet ef` commands (`--configuration`).
+ * @property efFramework - Target framework for `dotnet ef` commands (`--framework`).
+ * @property efNoBuild - Whether `dotnet ef` commands skip building the projects (`--no-build`).
+ * @property allowDestructiveMigrations - Whether to apply migrations that drop, rename or narrow tables and columns.
+ * @property onFailedRollbackMigrations - Whether to roll back `run_migrations` to its baseline when the update or a later step fails.
  * @property runTests - Whether to run tests.
  * @property testsEnvName - Environment name for tests.
  * @property runTestsMigrations - Whether to run tests migrations.
@@ -16,6 +39,22 @@
  * @property testOutputFolder - Path to the test output folder.
  * @property uploadTestsResults - Whether to upload tests results.
  * @property testFormat - Format for test results.
+ * @property testLoggers - Newline-separated `dotnet test` loggers; overrides `testFormat` when set.
+ * @property collectCoverage - Whether to collect Cobertura code coverage during tests.
+ * @property coverageThreshold - Minimum line coverage in percent; 0 disables the check.
+ * @property coverageBranchThreshold - Minimum branch coverage in percent; 0 disables the check.
+ * @property coverageBaselineFile - Path to a committed coverage baseline JSON file.
+ * @property coverageBaselineBranch - Branch whose latest successful run provides the coverage baseline artifact.
+ * @property coverageChangedLinesThreshold - Minimum coverage of changed lines in percent; 0 disables the check.
+ * @property testShardIndex - The 1-based shard this job runs.
+ * @property testShardCount - The number of shards the tests are split into; 1 disables sharding.
+ * @property testShardHistory - Folder with earlier TRX or JUnit results used to balance shards by duration.
+ * @property testRetries - How often failed tests are re-run before the tests count as failed.
+ * @property testQuarantineFile - JSON file listing quarantined tests, whose failures do not fail the step.
+ * @property testQuarantineGraceDays - Days an expired quarantine entry still applies, with a warning, before it fails the step.
+ * @property testDatabaseProvider - Provider of a throwaway database container for tests ('postgres', 'sqlserver', 'mysql').
+ * @property testDatabaseImage - Image override for the test database container.
+ * @property testDatabaseConnectionName - Connection string name the test database is exported as.
  * @property rollbackMigrationsOnTestFailed - Whether to rollback migrations if tests fail.
  * @property runVersioning - Whether to run the versioning step.
  * @property csprojDepth - Maximum depth for locating the .csproj file.
@@ -47,6 +86,8 @@
  * @property version - Version string.
  * @property runPublish - Whether to publish.
  * @property includeDotnetBinaries - Whether to include .NET binaries.
+ * @property includeMigrationBundles - Whether to attach EF Core migration bundles to the release.
+ * @property includeDowngradeScript - Whether to attach a SQL script that reverts the release's migrations.
  * @property publishLinux - Whether to publish for Linux.
  * @property publishWindows - Whether to publish for Windows.
  * @property publishMac - Whether to publish for Mac.
@@ -56,11 +97,34 @@ export interface ActionInputs {
   homeDirectory: string
   dotnetRoot: string
   useGlobalDotnetEf: boolean
+  connectionStrings: string
+  databaseProvider: string
+  databaseConnectionName: string
 
   // Migrations
   runMigrations: boolean
+  runMigrationsCheck: boolean
+  migrationsPlan: boolean
+  runMigrationsLint: boolean
+  runMigrationsVerify: boolean
+  runMigrationsBundle: boolean
   migrationsFolder: string
   envName: string
+  migrationsContexts: string
+  generateMigrationScript: boolean
+  migrationScriptFolder: string
+  efProject: string
+  efStartupProject: string
+  efConfiguration: string
+  efFramework: string
+  efNoBuild: boolean
+  allowDestructiveMigrations: boolean
+  schemaDiffReport: boolean
+  seedCommand: string
+  seedScriptsFolder: string
+  backupBeforeMigrations: boolean
+  backupFolder: string
+  uploadBackup: boolean
   onFailedRollbackMigrations: boolean
 
   // Tests
@@ -72,6 +136,22 @@ export interface ActionInputs {
   uploadTestsResults: boolean
   testOutputFolder: string
   testFormat: string
+  testLoggers: string
+  collectCoverage: boolean
+  coverageThreshold: number
+  coverageBranchThreshold: number
+  coverageBaselineFile: string
+  coverageBaselineBranch: string
+  coverageChangedLinesThreshold: number
+  testShardIndex: number
+  testShardCount: number
+  testShardHistory: string
+  testRetries: number
+  testQuarantineFile: string
+  testQuarantineGraceDays: number
+  testDatabaseProvider: string
+  testDatabaseImage: string
+  testDatabaseConnectionName: string
   rollbackMigrationsOnTestFailed: boolean
 
   // Versioning
@@ -103,6 +183,8 @@ export interface ActionInputs {
   // Changelog
   includeGhcrPackage: boolean
   includeDotnetBinaries: boolean
+  includeMigrationBundles: boolean
+  includeDowngradeScript: boolean
 
   runChangelog: boolean
   majorKeywords: string
@@ -190,11 +272,55 @@ export function getInputs(): ActionInputs {
     homeDirectory: getInputOrDefault('home_directory', '/home/node'),
     dotnetRoot: getInputOrDefault('dotnet_root', '/usr/bin/dotnet'),
     useGlobalDotnetEf: getInputOrDefaultBoolean('use_global_dotnet_ef', false),
+    connectionStrings: getInputOrDefault('connection_strings', ''),
+    databaseProvider: getInputOrDefault('database_provider', ''),
+    databaseConnectionName: getInputOrDefault(
+      'database_connection_name',
+      'DefaultConnection'
+    ),
 
     // Migrations
     runMigrations: getInputOrDefaultBoolean('run_migrations', false),
+    runMigrationsCheck: getInputOrDefaultBoolean('run_migrations_check', false),
+    migrationsPlan: getInputOrDefaultBoolean('migrations_plan', false),
+    runMigrationsLint: getInputOrDefaultBoolean('run_migrations_lint', false),
+    runMigrationsVerify: getInputOrDefaultBoolean(
+      'run_migrations_verify',
+      false
+    ),
+    runMigrationsBundle: getInputOrDefaultBoolean(
+      'run_migrations_bundle',
+      false
+    ),
     migrationsFolder: getInputOrDefault('migrations_folder', ''),
     envName: getInputOrDefault('migrations_env_name', 'Development'),
+    migrationsContexts: getInputOrDefault('migrations_contexts', ''),
+    generateMigrationScript: getInputOrDefaultBoolean(
+      'generate_migration_script',
+      false
+    ),
+    migrationScriptFolder: getInputOrDefault(
+      'migration_script_folder',
+      'MigrationScripts'
+    ),
+    efProject: getInputOrDefault('ef_project', ''),
+    efStartupProject: getInputOrDefault('ef_startup_project', ''),
+    efConfiguration: getInputOrDefault('ef_configuration', ''),
+    efFramework: getInputOrDefault('ef_framework', ''),
+    efNoBuild: getInputOrDefaultBoolean('ef_no_build', false),
+    allowDestructiveMigrations: getInputOrDefaultBoolean(
+      'allow_destructive_migrations',
+      false
+    ),
+    schemaDiffReport: getInputOrDefaultBoolean('schema_diff_report', false),
+    seedCommand: getInputOrDefault('seed_command', ''),
+    seedScriptsFolder: getInputOrDefault('seed_scripts_folder', ''),
+    backupBeforeMigrations: getInputOrDefaultBoolean(
+      'backup_before_migrations',
+      false
+    ),
+    backupFolder: getInputOrDefault('backup_folder', 'DatabaseBackups'),
+    uploadBackup: getInputOrDefaultBoolean('upload_backup', false),
     onFailedRollbackMigrations: getInputOrDefaultBoolean(
       'on_failed_rollback_migrations',
       false
@@ -209,6 +335,32 @@ export function getInputs(): ActionInputs {
     uploadTestsResults: getInputOrDefaultBoolean('upload_tests_results', false),
     testOutputFolder: getInputOrDefault('test_output_folder', 'TestResults'),
     testFormat: getInputOrDefault('test_format', 'html'),
+    testLoggers: getInputOrDefault('test_loggers', ''),
+    collectCoverage: getInputOrDefaultBoolean('collect_coverage', false),
+    coverageThreshold: parseFloat(getInputOrDefault('coverage_threshold', '0')),
+    coverageBranchThreshold: parseFloat(
+      getInputOrDefault('coverage_branch_threshold', '0')
+    ),
+    coverageBaselineFile: getInputOrDefault('coverage_baseline_file', ''),
+    coverageBaselineBranch: getInputOrDefault('coverage_baseline_branch', ''),
+    coverageChangedLinesThreshold: parseFloat(
+      getInputOrDefault('coverage_changed_lines_threshold', '0')
+    ),
+    testShardIndex: parseInt(getInputOrDefault('test_shard_index', '1'), 10),
+    testShardCount: parseInt(getInputOrDefault('test_shard_count', '1'), 10),
+    testShardHistory: getInputOrDefault('test_shard_history', ''),
+    testRetries: parseInt(getInputOrDefault('test_retries', '0'), 10),
+    testQuarantineFile: getInputOrDefault('test_quarantine_file', ''),
+    testQuarantineGraceDays: parseInt(
+      getInputOrDefault('test_quarantine_grace_days', '7'),
+      10
+    ),
+    testDatabaseProvider: getInputOrDefault('test_database_provider', ''),
+    testDatabaseImage: getInputOrDefault('test_database_image', ''),
+    testDatabaseConnectionName: getInputOrDefault(
+      'test_database_connection_name',
+      'DefaultConnection'
+    ),
     rollbackMigrationsOnTestFailed: getInputOrDefaultBoolean(
       'rollback_migrations_on_test_failed',
       false
@@ -262,6 +414,14 @@ export function getInputs(): ActionInputs {
     // Additional
     includeGhcrPackage: getInputOrDefaultBoolean('include_ghcr_package', false),
     includeDotnetBinaries: core.getBooleanInput('include_dotnet_binaries'),
+    includeMigrationBundles: getInputOrDefaultBoolean(
+      'include_migration_bundles',
+      false
+    ),
+    includeDowngradeScript: getInputOrDefaultBoolean(
+      'include_downgrade_script',
+      false
+    ),
     runPublish: core.getBooleanInput('run_publish'),
     publishLinux: core.getBooleanInput('publish_linux'),
     publishWindows: core.getBooleanInput('publish_windows'),
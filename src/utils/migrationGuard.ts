@@ -0,0 +1,349 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import { MigrationInfo } from './migrations.js'
+import { getEfProjectArgs } from './efRunner.js'
+
+/**
+ * Commit trailer that approves destructive migrations, e.g.
+ * `Allow-Destructive-Migrations: true` or `Allow-Destructive-Migrations: 20240101120000_DropLegacy`.
+ */
+export const DESTRUCTIVE_MIGRATIONS_TRAILER = 'Allow-Destructive-Migrations'
+
+/**
+ * A destructive operation found in the `Up` method of a migration.
+ *
+ * @property migration - The migration ID.
+ * @property operation - The `MigrationBuilder` call (e.g., 'DropColumn').
+ * @property target - The affected table or column, as written in the migration.
+ * @property reason - Why the operation is considered destructive.
+ * @property file - Path to the migration `.cs` file.
+ * @property line - 1-based line of the call in `file`.
+ */
+export interface DestructiveOperation {
+  migration: string
+  operation: string
+  target: string
+  reason: string
+  file: string
+  line: number
+}
+
+// Relative widths of CLR types, used to detect narrowing AlterColumn calls.
+const CLR_TYPE_RANK: Record<string, number> = {
+  byte: 1,
+  short: 2,
+  int: 3,
+  long: 4,
+  float: 3,
+  double: 4,
+  decimal: 5,
+  string: 6
+}
+
+/**
+ * Returns the source between the braces that follow `start`.
+ */
+export function extractBlock(
+  source: string,
+  start: number
+): { body: string; offset: number } | null {
+  const open = source.indexOf('{', start)
+  if (open === -1) return null
+  let depth = 0
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === '{') depth++
+    if (source[i] === '}' && --depth === 0) {
+      return { body: source.slice(open + 1, i), offset: open + 1 }
+    }
+  }
+  return null
+}
+
+/**
+ * Returns the argument list of the call whose opening parenthesis is at `open`.
+ */
+function extractArguments(source: string, open: number): string {
+  let depth = 0
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === '(') depth++
+    if (source[i] === ')' && --depth === 0) {
+      return source.slice(open + 1, i)
+    }
+  }
+  return source.slice(open + 1)
+}
+
+function namedArgument(args: string, name: string): string | undefined {
+  const match = args.match(
+    new RegExp(`\\b${name}\\s*:\\s*("(?:[^"\\\\]|\\\\.)*"|[^,)]+)`)
+  )
+  return match ? match[1].trim().replace(/^"|"$/g, '') : undefined
+}
+
+function sizeOf(sqlType: string | undefined): number | undefined {
+  const match = sqlType?.match(/\((\d+|max)/i)
+  if (!match) return undefined
+  return match[1].toLowerCase() === 'max' ? Infinity : parseInt(match[1], 10)
+}
+
+/**
+ * Explains why an `AlterColumn` call narrows the column, or returns an empty string.
+ */
+function narrowingReason(genericType: string, args: string): string {
+  const maxLength = namedArgument(args, 'maxLength')
+  const oldMaxLength = namedArgument(args, 'oldMaxLength')
+  // Removing maxLength widens the column to nvarchar(max)/text, so only a smaller value narrows it.
+  if (oldMaxLength && maxLength && +maxLength < +oldMaxLength) {
+    return `max length reduced from ${oldMaxLength} to ${maxLength}`
+  }
+
+  const type = namedArgument(args, 'type')
+  const oldType = namedArgument(args, 'oldType')
+  const size = sizeOf(type)
+  const oldSize = sizeOf(oldType)
+  if (size !== undefined && oldSize !== undefined && size < oldSize) {
+    return `type narrowed from ${oldType} to ${type}`
+  }
+
+  const precision = namedArgument(args, 'precision')
+  const oldPrecision = namedArgument(args, 'oldPrecision')
+  if (precision && oldPrecision && +precision < +oldPrecision) {
+    return `precision reduced from ${oldPrecision} to ${precision}`
+  }
+
+  const clrType = genericType.replace(/\?$/, '')
+  const oldClrType = namedArgument(args, 'oldClrType')
+    ?.replace(/^typeof\(|\)$/g, '')
+    .replace(/\?$/, '')
+  if (
+    oldClrType &&
+    clrType !== oldClrType &&
+    CLR_TYPE_RANK[clrType] !== undefined &&
+    CLR_TYPE_RANK[oldClrType] !== undefined &&
+    CLR_TYPE_RANK[clrType] < CLR_TYPE_RANK[oldClrType]
+  ) {
+    return `type narrowed from ${oldClrType} to ${clrType}`
+  }
+
+  return ''
+}
+
+/**
+ * Finds destructive operations in the `Up` method of a migration source file.
+ *
+ * @param {string} source - The C# source of the migration.
+ * @returns {{ operation: string; target: string; reason: string; line: number }[]} The operations found, in source order.
+ * @example
+ * const operations = findDestructiveOperations(fs.readFileSync('20240101120000_DropLegacy.cs', 'utf8'));
+ * @remarks
+ * `DropTable`, `DropColumn` and `RenameTable` are always destructive. `AlterColumn` is destructive
+ * when it narrows the column: a smaller max length, SQL type size or precision, or a narrower CLR type.
+ * The `Down` method is ignored because it only runs on rollback.
+ */
+export function findDestructiveOperations(
+  source: string
+): { operation: string; target: string; reason: string; line: number }[] {
+  const upMatch = source.match(/override\s+void\s+Up\s*\(/)
+  if (!upMatch || upMatch.index === undefined) return []
+  const block = extractBlock(source, upMatch.index)
+  if (!block) return []
+
+  const operations: {
+    operation: string
+    target: string
+    reason: string
+    line: number
+  }[] = []
+  const callPattern =
+    /\.(DropTable|DropColumn|RenameTable|AlterColumn)\s*(?:<([^>]+)>)?\s*\(/g
+  let match: RegExpExecArray | null
+  while ((match = callPattern.exec(block.body)) !== null) {
+    const [call, operation, genericType = ''] = match
+    const args = extractArguments(block.body, match.index + call.length - 1)
+    const table = namedArgument(args, 'table')
+    const name = namedArgument(args, 'name') ?? ''
+    const target = table ? `${table}.${name}` : name
+
+    let reason = ''
+    switch (operation) {
+      case 'DropTable':
+        reason = 'table is dropped'
+        break
+      case 'DropColumn':
+        reason = 'column is dropped'
+        break
+      case 'RenameTable':
+        reason = `table is renamed to ${namedArgument(args, 'newName') ?? '?'}`
+        break
+      case 'AlterColumn':
+        reason = narrowingReason(genericType.trim(), args)
+        break
+    }
+    if (!reason) continue
+
+    const position = block.offset + match.index
+    operations.push({
+      operation,
+      target,
+      reason,
+      line: source.slice(0, position).split('\n').length
+    })
+  }
+  return operations
+}
+
+/**
+ * Finds the `.cs` file of a migration below the migrations folder.
+ *
+ * @param {string} migrationsFolder - The folder to search (recursively, skipping `bin` and `obj`).
+ * @param {string} migrationId - The migration ID, which EF uses as the file name.
+ * @returns {string | undefined} The path of the migration file, if found.
+ */
+export function findMigrationFile(
+  migrationsFolder: string,
+  migrationId: string
+): string | undefined {
+  const fileName = `${migrationId}.cs`
+  const pending = [migrationsFolder || '.']
+  while (pending.length > 0) {
+    const dir = pending.pop()!
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        if (!['bin', 'obj', 'node_modules', '.git'].includes(entry.name)) {
+          pending.push(entryPath)
+        }
+      } else if (entry.name === fileName) {
+        return entryPath
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Scans the `.cs` files of pending migrations for destructive operations.
+ *
+ * @param {string} migrationsFolder - The folder that contains the migration files.
+ * @param {MigrationInfo[]} pending - The migrations that are about to be applied.
+ * @returns {DestructiveOperation[]} Every destructive operation found.
+ * @throws {Error} If the file of a pending migration is not found, since it cannot be verified.
+ * @remarks
+ * Migration files are searched in `migrationsFolder` and in the `ef_project` folder (see
+ * `getEfProjectArgs`), which holds the migrations when it is a separate class library.
+ */
+export function scanPendingMigrations(
+  migrationsFolder: string,
+  pending: MigrationInfo[]
+): DestructiveOperation[] {
+  const efArgs = getEfProjectArgs()
+  const project = efArgs[efArgs.indexOf('--project') + 1]
+  const folders = [migrationsFolder || '.']
+  if (efArgs.includes('--project')) {
+    folders.push(/\.\w+proj$/i.test(project) ? path.dirname(project) : project)
+  }
+
+  const found: DestructiveOperation[] = []
+  for (const migration of pending) {
+    const file = folders
+      .filter((folder) => fs.existsSync(folder))
+      .map((folder) => findMigrationFile(folder, migration.id))
+      .find((candidate) => candidate)
+    if (!file) {
+      throw new Error(
+        `Cannot verify migration ${migration.id}: ${migration.id}.cs was not found in ${folders.join(' or ')}.`
+      )
+    }
+    const source = fs.readFileSync(file, 'utf8')
+    for (const operation of findDestructiveOperations(source)) {
+      found.push({ migration: migration.id, file, ...operation })
+    }
+  }
+  return found
+}
+
+/**
+ * Reads the migrations approved by the `Allow-Destructive-Migrations` commit trailer.
+ *
+ * @param {string} commitMessage - The full commit message.
+ * @returns {string[]} The approved migration IDs or names; `['*']` when the trailer approves all.
+ */
+export function getApprovedDestructiveMigrations(
+  commitMessage: string
+): string[] {
+  const approved: string[] = []
+  const pattern = new RegExp(
+    `^${DESTRUCTIVE_MIGRATIONS_TRAILER}:\\s*(.+)$`,
+    'gim'
+  )
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(commitMessage)) !== null) {
+    for (const value of match[1].split(',').map((v) => v.trim())) {
+      if (['true', 'yes', 'all', '*'].includes(value.toLowerCase())) {
+        approved.push('*')
+      } else if (value) {
+        approved.push(value)
+      }
+    }
+  }
+  return approved
+}
+
+/**
+ * Refuses pending migrations with unapproved destructive operations.
+ *
+ * @param {string} migrationsFolder - The folder that contains the migration files.
+ * @param {MigrationInfo[]} pending - The migrations that are about to be applied.
+ * @param {boolean} allowDestructive - Whether the `allow_destructive_migrations` input approves everything.
+ * @param {string} commitMessage - The commit message checked for the approval trailer.
+ * @returns {void}
+ * @throws {Error} If any destructive operation is not approved.
+ * @remarks
+ * Every operation is reported as an annotation on the migration file: a warning when it is approved,
+ * an error when it is not.
+ */
+export function assertDestructiveMigrationsApproved(
+  migrationsFolder: string,
+  pending: MigrationInfo[],
+  allowDestructive: boolean,
+  commitMessage: string
+): void {
+  const operations = scanPendingMigrations(migrationsFolder, pending)
+  if (operations.length === 0) {
+    core.info('No destructive operations found in pending migrations.')
+    return
+  }
+
+  const approved = getApprovedDestructiveMigrations(commitMessage)
+  const isApproved = (migrationId: string) =>
+    allowDestructive ||
+    approved.includes('*') ||
+    pending.some(
+      (migration) =>
+        migration.id === migrationId &&
+        (approved.includes(migration.id) || approved.includes(migration.name))
+    )
+
+  const refused = new Set<string>()
+  for (const operation of operations) {
+    const message = `${operation.migration}: ${operation.operation} ${operation.target} (${operation.reason})`
+    const properties = {
+      title: 'Destructive migration',
+      file: operation.file,
+      startLine: operation.line
+    }
+    if (isApproved(operation.migration)) {
+      core.warning(`${message} [approved]`, properties)
+    } else {
+      core.error(message, properties)
+      refused.add(operation.migration)
+    }
+  }
+
+  if (refused.size > 0) {
+    throw new Error(
+      `Refusing to apply destructive migrations: ${[...refused].join(', ')}. Set allow_destructive_migrations or add a "${DESTRUCTIVE_MIGRATIONS_TRAILER}: <MigrationId>" commit trailer to approve them.`
+    )
+  }
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { extractBlock } from './migrationGuard.js'
+
+/**
+ * A migration found in the migrations folder, read from its `.Designer.cs` file.
+ *
+ * @property id - The migration ID from the `[Migration("...")]` attribute.
+ * @property context - The DbContext type from the `[DbContext(typeof(...))]` attribute.
+ * @property file - Path to the `.Designer.cs` file.
+ */
+export interface MigrationFile {
+  id: string
+  context: string
+  file: string
+}
+
+/**
+ * A model snapshot found in the migrations folder.
+ *
+ * @property context - The DbContext type from the `[DbContext(typeof(...))]` attribute.
+ * @property file - Path to the `*ModelSnapshot.cs` file.
+ */
+export interface ModelSnapshotFile {
+  context: string
+  file: string
+}
+
+/**
+ * A problem found by the migrations lint.
+ *
+ * @property message - What is wrong and how to fix it.
+ * @property file - The file to annotate.
+ */
+export interface MigrationLintIssue {
+  message: string
+  file: string
+}
+
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})( |$)/m
+
+function listCsFiles(folder: string): string[] {
+  const files: string[] = []
+  const pending = [folder || '.']
+  while (pending.length > 0) {
+    const dir = pending.pop()!
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        if (!['bin', 'obj', 'node_modules', '.git'].includes(entry.name)) {
+          pending.push(entryPath)
+        }
+      } else if (entry.name.endsWith('.cs')) {
+        files.push(entryPath)
+      }
+    }
+  }
+  return files
+}
+
+function readContextType(source: string): string {
+  const match = source.match(/\[DbContext\(typeof\(([\w.]+)\)\)\]/)
+  return match ? match[1].split('.').pop()! : ''
+}
+
+/**
+ * Reads the migrations and model snapshots of a migrations folder.
+ *
+ * @param {string} migrationsFolder - The folder to search (recursively, skipping `bin` and `obj`).
+ * @returns {{ migrations: MigrationFile[]; snapshots: ModelSnapshotFile[] }} The migrations, sorted by ID, and the snapshots.
+ */
+export function readMigrationsFolder(migrationsFolder: string): {
+  migrations: MigrationFile[]
+  snapshots: ModelSnapshotFile[]
+} {
+  const migrations: MigrationFile[] = []
+  const snapshots: ModelSnapshotFile[] = []
+  for (const file of listCsFiles(migrationsFolder)) {
+    if (file.endsWith('.Designer.cs')) {
+      const source = fs.readFileSync(file, 'utf8')
+      const match = source.match(/\[Migration\("([^"]+)"\)\]/)
+      if (match) {
+        migrations.push({
+          id: match[1],
+          context: readContextType(source),
+          file
+        })
+      }
+    } else if (file.endsWith('ModelSnapshot.cs')) {
+      const source = fs.readFileSync(file, 'utf8')
+      snapshots.push({ context: readContextType(source), file })
+    }
+  }
+  migrations.sort((a, b) => a.id.localeCompare(b.id))
+  return { migrations, snapshots }
+}
+
+/**
+ * Finds pending migrations that sort before the latest applied migration.
+ *
+ * @param {string[]} folderIds - The migration IDs found in the migrations folder.
+ * @param {string[]} appliedIds - The migration IDs already applied to the database.
+ * @returns {string[]} The out-of-order migration IDs, sorted.
+ *
+ * @example
+ * findOutOfOrderMigrations(['20240101_A', '20240201_B', '20240301_C'], ['20240101_A', '20240301_C'])
+ * // ['20240201_B']
+ *
+ * @remarks
+ * EF applies such a migration after newer ones without complaint, so its `Up` runs against a schema
+ * it was not written for. This usually happens when two branches each added a migration.
+ */
+export function findOutOfOrderMigrations(
+  folderIds: string[],
+  appliedIds: string[]
+): string[] {
+  if (appliedIds.length === 0) return []
+  const applied = new Set(appliedIds)
+  const latestApplied = [...appliedIds].sort().pop()!
+  return folderIds.filter((id) => !applied.has(id) && id < latestApplied).sort()
+}
+
+/**
+ * Returns the model-building statements of a snapshot or migration designer, whitespace-normalized.
+ */
+function extractModel(source: string, method: string): string | undefined {
+  const match = source.match(new RegExp(`void\\s+${method}\\s*\\(`))
+  if (!match || match.index === undefined) return undefined
+  const block = extractBlock(source, match.index)
+  return block?.body.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Finds model snapshots that conflict with the migrations of their DbContext.
+ *
+ * @param {MigrationFile[]} migrations - The migrations of the folder, sorted by ID.
+ * @param {ModelSnapshotFile[]} snapshots - The model snapshots of the folder.
+ * @returns {MigrationLintIssue[]} One issue per conflicting snapshot or migration.
+ *
+ * @remarks
+ * - Any snapshot or designer that still contains merge conflict markers is reported.
+ * - EF keeps the `BuildModel` body of the snapshot identical to the `BuildTargetModel` body of the
+ *   latest migration. When two branches each added a migration, the merged snapshot contains both
+ *   models while the latest migration only knows its own, so the two differ. The fix is to remove
+ *   the later migration and add it again on top of the merged history.
+ */
+export function findSnapshotConflicts(
+  migrations: MigrationFile[],
+  snapshots: ModelSnapshotFile[]
+): MigrationLintIssue[] {
+  const issues: MigrationLintIssue[] = []
+
+  for (const file of [...snapshots, ...migrations].map((item) => item.file)) {
+    if (CONFLICT_MARKER.test(fs.readFileSync(file, 'utf8'))) {
+      issues.push({ message: 'File contains merge conflict markers.', file })
+    }
+  }
+
+  for (const snapshot of snapshots) {
+    const latest = migrations
+      .filter((migration) => migration.context === snapshot.context)
+      .pop()
+    if (!latest) continue
+
+    const snapshotModel = extractModel(
+      fs.readFileSync(snapshot.file, 'utf8'),
+      'BuildModel'
+    )
+    const migrationModel = extractModel(
+      fs.readFileSync(latest.file, 'utf8'),
+      'BuildTargetModel'
+    )
+    if (
+      snapshotModel !== undefined &&
+      migrationModel !== undefined &&
+      snapshotModel !== migrationModel
+    ) {
+      issues.push({
+        message: `The model snapshot of ${snapshot.context} does not match the target model of its latest migration ${latest.id}. Another migration was probably merged in from a different branch; remove ${latest.id} and add it again on top of the merged history.`,
+        file: snapshot.file
+      })
+    }
+  }
+  return issues
+}
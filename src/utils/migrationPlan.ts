@@ -0,0 +1,208 @@
+import * as core from '@actions/core'
+import * as path from 'path'
+import {
+  MigrationInfo,
+  listMigrations,
+  getBaselineMigration,
+  getDatabaseUpdateCommand
+} from './migrations.js'
+import { getEfCommand } from './efRunner.js'
+import { SEED_HISTORY_TABLE } from './seed.js'
+import { escapeHtml } from './summary.js'
+
+/**
+ * What `processMigrations` would do for one DbContext.
+ *
+ * @property context - The DbContext name, or an empty string for the default context.
+ * @property baseline - The migration the database is currently at ('0' when none is applied).
+ * @property pending - The migrations that would be applied, oldest first.
+ * @property commands - The exact `dotnet ef` commands that would run, with their working directory.
+ */
+export interface MigrationPlan {
+  context: string
+  baseline: string
+  pending: MigrationInfo[]
+  commands: string[]
+}
+
+/**
+ * The steps `runMigrations` runs around the per-context commands, as shell lines.
+ *
+ * @property before - Steps that run before any DbContext is migrated (the database backup).
+ * @property after - Steps that run after every DbContext is migrated (seeding).
+ */
+export interface MigrationRunSteps {
+  before: string[]
+  after: string[]
+}
+
+/**
+ * Builds the migration plan for a DbContext without changing the database.
+ *
+ * @param {string} envName - The ASP.NET Core environment name.
+ * @param {string} home - Home directory to set for environment variables.
+ * @param {string} migrationsFolder - The folder that contains the migration files.
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
+ * @param {string} context - The DbContext to plan. When empty, `--context` is omitted.
+ * @param {string} scriptPath - Where the idempotent migration script is written (`generate_migration_script`), or an empty string when none is generated.
+ * @returns {Promise<MigrationPlan>} The baseline, pending migrations and commands.
+ * @throws {Error} If the migrations cannot be listed.
+ * @example
+ * ```typescript
+ * const plan = await planMigrations('Staging', '/home/user', './migrations', '/usr/bin/dotnet', false)
+ * console.log(plan.pending.map((migration) => migration.id))
+ * ```
+ */
+export async function planMigrations(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  context: string = '',
+  scriptPath: string = ''
+): Promise<MigrationPlan> {
+  const migrations = await listMigrations(
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
+  )
+  const baseline = getBaselineMigration(migrations)
+  const pending = migrations.filter((migration) => !migration.applied)
+  const efCommands: { command: string; args: string[] }[] = []
+
+  // runMigrations writes the script before updating, whether or not migrations are pending.
+  if (scriptPath) {
+    efCommands.push(
+      getEfCommand(
+        dotnetRoot,
+        useGlobalDotnetEf,
+        [
+          'migrations',
+          'script',
+          baseline || '0',
+          '--idempotent',
+          '--output',
+          path.resolve(scriptPath)
+        ],
+        context
+      )
+    )
+  }
+  if (pending.length > 0) {
+    efCommands.push(
+      getDatabaseUpdateCommand(dotnetRoot, useGlobalDotnetEf, context)
+    )
+  }
+
+  return {
+    context,
+    baseline,
+    pending,
+    commands: efCommands.map(
+      ({ command, args }) =>
+        `cd ${migrationsFolder || '.'} && ASPNETCORE_ENVIRONMENT=${envName} ${command} ${args.join(' ')}`
+    )
+  }
+}
+
+/**
+ * Lists the steps `runMigrations` runs before and after migrating the DbContexts.
+ *
+ * @param {MigrationPlan[]} plans - One plan per DbContext.
+ * @param {{ provider: string; connectionName: string; folder: string; upload: boolean } | undefined} backup - The backup settings when `backup_before_migrations` is set.
+ * @param {string} seedCommand - The seed command, or an empty string.
+ * @param {string} seedScriptsFolder - The seed scripts folder, or an empty string.
+ * @returns {MigrationRunSteps} The steps, as commands or `#` comments for steps that are not a single command.
+ *
+ * @remarks
+ * The backup is only taken when some DbContext has pending migrations; seeding always runs.
+ */
+export function planMigrationRunSteps(
+  plans: MigrationPlan[],
+  backup:
+    | {
+        provider: string
+        connectionName: string
+        folder: string
+        upload: boolean
+      }
+    | undefined,
+  seedCommand: string,
+  seedScriptsFolder: string
+): MigrationRunSteps {
+  const steps: MigrationRunSteps = { before: [], after: [] }
+
+  if (backup && plans.some((plan) => plan.pending.length > 0)) {
+    steps.before.push(
+      `# Back up the ${backup.provider} database (ConnectionStrings__${backup.connectionName}) to ${path.resolve(backup.folder)}${backup.upload ? ' and upload it as the database-backup artifact' : ''}`
+    )
+  }
+  if (seedCommand) {
+    steps.after.push(seedCommand)
+  }
+  if (seedScriptsFolder) {
+    steps.after.push(
+      `# Run the .sql scripts in ${seedScriptsFolder} that are not recorded in ${SEED_HISTORY_TABLE}, in file name order`
+    )
+  }
+  return steps
+}
+
+/**
+ * Writes migration plans to the GitHub job summary.
+ *
+ * @param {MigrationPlan[]} plans - One plan per DbContext.
+ * @param {MigrationRunSteps} steps - The steps around the per-context commands (see `planMigrationRunSteps`).
+ * @returns {Promise<void>} Resolves when the summary has been written.
+ */
+export async function writeMigrationPlanSummary(
+  plans: MigrationPlan[],
+  steps: MigrationRunSteps = { before: [], after: [] }
+): Promise<void> {
+  core.summary.addHeading('Migration plan', 2)
+
+  if (steps.before.length > 0) {
+    core.summary.addHeading('Before migrating', 3)
+    core.summary.addCodeBlock(escapeHtml(steps.before.join('\n')), 'sh')
+  }
+
+  for (const plan of plans) {
+    if (plan.context) {
+      core.summary.addHeading(escapeHtml(plan.context), 3)
+    }
+    core.summary.addRaw(
+      `<p><strong>Baseline migration:</strong> <code>${escapeHtml(plan.baseline)}</code></p>`,
+      true
+    )
+
+    if (plan.pending.length === 0) {
+      core.summary.addRaw('<p>No pending migrations.</p>', true)
+    } else {
+      core.summary.addTable([
+        [
+          { data: '#', header: true },
+          { data: 'Pending migration', header: true }
+        ],
+        ...plan.pending.map((migration, index) => [
+          `${index + 1}`,
+          escapeHtml(migration.id)
+        ])
+      ])
+    }
+    if (plan.commands.length > 0) {
+      core.summary.addCodeBlock(escapeHtml(plan.commands.join('\n')), 'sh')
+    }
+  }
+
+  if (steps.after.length > 0) {
+    core.summary.addHeading('After migrating', 3)
+    core.summary.addCodeBlock(escapeHtml(steps.after.join('\n')), 'sh')
+  }
+
+  await core.summary.write()
+}
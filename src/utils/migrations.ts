@@ -1,6 +1,167 @@
 import * as core from '@actions/core'
 import * as exec from '@actions/exec'
-import { installDotnetEfLocally } from './dotnet.js'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  EfCommandSettings,
+  ensureDotnetEf,
+  getEfCommand,
+  runEf
+} from './efRunner.js'
+
+/**
+ * Splits a comma-separated list of DbContext names.
+ *
+ * @param {string} contexts - Comma-separated DbContext names (e.g., 'AppDbContext, IdentityDbContext').
+ * @returns {string[]} The trimmed context names, or `['']` when none are given so callers run once without `--context`.
+ * @example
+ * const contexts = parseMigrationContexts('AppDbContext, OutboxDbContext');
+ * console.log(contexts); // ['AppDbContext', 'OutboxDbContext']
+ */
+export function parseMigrationContexts(contexts: string): string[] {
+  const names = contexts
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name)
+  return names.length > 0 ? names : ['']
+}
+
+/**
+ * A migration as reported by `dotnet ef migrations list --json`.
+ *
+ * @property id - The full migration ID, including the timestamp (e.g., '20240101120000_AddUsers').
+ * @property name - The migration name without the timestamp (e.g., 'AddUsers').
+ * @property applied - Whether the migration has been applied to the database.
+ */
+export interface MigrationInfo {
+  id: string
+  name: string
+  applied: boolean
+}
+
+/**
+ * Returns the JSON data that a `dotnet ef` command wrote with `--json --prefix-output`.
+ *
+ * Only lines prefixed with `data:` carry the data; build output and log lines carry `info:`,
+ * `warn:` or no prefix, so brackets in them never break parsing.
+ */
+function readPrefixedJson(output: string): string {
+  return output
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.replace(/^data:\s*/, ''))
+    .join('\n')
+}
+
+/**
+ * Parses the output of `dotnet ef migrations list --json --prefix-output`.
+ *
+ * @param {string} output - The raw standard output of the command.
+ * @returns {MigrationInfo[]} The migrations in the order EF lists them (oldest first).
+ * @throws {Error} If the output does not contain a JSON migration list.
+ * @example
+ * const migrations = parseMigrationList('data:    [{"id":"20240101120000_Init","name":"Init","applied":true}]');
+ * console.log(migrations[0].applied); // true
+ * @remarks
+ * Only lines prefixed with `data:` are considered, so build output and log lines are never
+ * mistaken for migrations.
+ * `applied` is `null` when EF cannot connect to the database; it is reported as `false`.
+ */
+export function parseMigrationList(output: string): MigrationInfo[] {
+  const json = readPrefixedJson(output)
+  if (!json) {
+    throw new Error('No JSON migration list found in dotnet-ef output.')
+  }
+
+  const entries = JSON.parse(json) as {
+    id: string
+    name: string
+    applied?: boolean | null
+  }[]
+  return entries.map((entry) => ({
+    id: entry.id,
+    name: entry.name,
+    applied: entry.applied === true
+  }))
+}
+
+/**
+ * Returns the baseline migration: the newest migration before the first pending one.
+ *
+ * @param {MigrationInfo[]} migrations - The migrations, oldest first, as returned by `listMigrations`.
+ * @returns {string} The baseline migration ID, or '0' when no migration precedes the pending ones.
+ * @example
+ * const baseline = getBaselineMigration(await listMigrations(...args));
+ */
+export function getBaselineMigration(migrations: MigrationInfo[]): string {
+  const firstPending = migrations.findIndex((migration) => !migration.applied)
+  const nonPendingMigrations =
+    firstPending === -1 ? migrations : migrations.slice(0, firstPending)
+  return nonPendingMigrations.length > 0
+    ? nonPendingMigrations[nonPendingMigrations.length - 1].id
+    : '0'
+}
+
+/**
+ * Builds the command `processMigrations` uses to apply pending migrations.
+ *
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
+ * @param {string} context - The DbContext to update. When empty, `--context` is omitted.
+ * @returns {{ command: string; args: string[] }} The executable and its arguments.
+ */
+export function getDatabaseUpdateCommand(
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  context: string = ''
+): { command: string; args: string[] } {
+  return getEfCommand(
+    dotnetRoot,
+    useGlobalDotnetEf,
+    ['database', 'update'],
+    context
+  )
+}
+
+/**
+ * Lists the migrations of a DbContext together with their applied state.
+ *
+ * @param {string} envName - The ASP.NET Core environment name.
+ * @param {string} home - Home directory to set for environment variables.
+ * @param {string} migrationsFolder - The folder that contains the migration files.
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
+ * @param {string} context - The DbContext to inspect. When empty, `--context` is omitted.
+ * @returns {Promise<MigrationInfo[]>} The migrations, oldest first.
+ * @throws {Error} If the command fails or its output cannot be parsed.
+ * @example
+ * ```typescript
+ * const migrations = await listMigrations(
+ *   'Development',
+ *   '/home/user',
+ *   './migrations',
+ *   '/usr/local/share/dotnet',
+ *   false
+ * );
+ * const pending = migrations.filter((migration) => !migration.applied);
+ * ```
+ */
+export async function listMigrations(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  context: string = ''
+): Promise<MigrationInfo[]> {
+  const { stdout: migrationOutput } = await runEf(
+    { envName, home, migrationsFolder, dotnetRoot, useGlobalDotnetEf, context },
+    ['migrations', 'list', '--json', '--prefix-output']
+  )
+  core.info(`Full migration output:\n${migrationOutput}`)
+
+  return parseMigrationList(migrationOutput)
+}
 
 /**
  * Executes EF Core migrations.
@@ -10,12 +171,14 @@ import { installDotnetEfLocally } from './dotnet.js'
  * @param {string} migrationsFolder - The folder containing the EF Core migrations.
  * @param {string} dotnetRoot - The path to the dotnet executable.
  * @param {boolean} useGlobalDotnetEf - If true, the global dotnet-ef installation is used; if false, the tool is installed locally.
- * @returns {Promise<string>} The name of the last applied migration, or an empty string if no migrations were applied.
+ * @param {string} context - The DbContext to migrate. When empty, `--context` is omitted and EF picks the only DbContext.
+ * @returns {Promise<string>} The ID of the last applied migration, or an empty string if no migrations were applied.
  * @throws {Error} If the migration command fails.
  * @remarks
  * - Ensure the `dotnet-ef` CLI tool is installed and accessible in the environment.
  * - The `migrationsFolder` must contain valid EF Core migration files.
- * - This function applies only the last pending migration if any exist.
+ * - Pending migrations are those reported with `applied: false` by `listMigrations`; all of them
+ *   are applied and the ID of the newest one is returned.
  * @example
  * ```typescript
  * const lastMigration = await processMigrations(
@@ -23,7 +186,8 @@ import { installDotnetEfLocally } from './dotnet.js'
  *   '/home/user',
  *   './migrations',
  *   '/usr/local/share/dotnet',
- *   false
+ *   false,
+ *   'AppDbContext'
  * );
  * console.log(`Last applied migration: ${lastMigration}`);
  * ```
@@ -33,48 +197,39 @@ export async function processMigrations(
   home: string,
   migrationsFolder: string,
   dotnetRoot: string,
-  useGlobalDotnetEf: boolean
+  useGlobalDotnetEf: boolean,
+  context: string = ''
 ): Promise<string> {
-  let migrationOutput = ''
-
-  if (!useGlobalDotnetEf) {
-    core.info('Ensuring local dotnet-ef tool is installed...')
-    await installDotnetEfLocally()
-  }
-
-  const baseEnv: Record<string, string> = {
-    DOTNET_ROOT: dotnetRoot,
-    HOME: process.env.HOME || home,
-    ASPNETCORE_ENVIRONMENT: envName || 'Test'
+  const settings: EfCommandSettings = {
+    envName: envName || 'Test',
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
   }
 
-  core.info(`Using environment: '${baseEnv.ASPNETCORE_ENVIRONMENT}'`)
+  core.info(`Using environment: '${settings.envName}'`)
 
-  const migrationOptions = { cwd: migrationsFolder, env: baseEnv }
-  const efCmd = useGlobalDotnetEf ? 'dotnet-ef' : dotnetRoot
-  const efArgs = useGlobalDotnetEf
-    ? ['migrations', 'list']
-    : ['tool', 'run', 'dotnet-ef', 'migrations', 'list']
-
-  const { stdout } = await exec.getExecOutput(efCmd, efArgs, migrationOptions)
-  migrationOutput = stdout
-  core.info(migrationOutput)
-
-  const pendingMigrations = migrationOutput
-    .split('\n')
-    .filter((line) => line.trim() && !line.includes('[applied]'))
+  const migrations = await listMigrations(
+    settings.envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
+  )
+  const pendingMigrations = migrations.filter((migration) => !migration.applied)
 
   let lastMigration = ''
 
   if (pendingMigrations.length > 0) {
-    lastMigration = pendingMigrations[pendingMigrations.length - 1].trim()
-    core.info(`Applying last pending migration: ${lastMigration}`)
-
-    const updateArgs = useGlobalDotnetEf
-      ? ['database', 'update']
-      : ['tool', 'run', 'dotnet-ef', 'database', 'update']
+    lastMigration = pendingMigrations[pendingMigrations.length - 1].id
+    core.info(
+      `Applying ${pendingMigrations.length} pending migration(s) up to: ${lastMigration}`
+    )
 
-    await exec.exec(efCmd, updateArgs, migrationOptions)
+    await runEf(settings, ['database', 'update'])
     core.info('Migrations applied successfully.')
   } else {
     core.info('No pending migrations detected.')
@@ -91,10 +246,11 @@ export async function processMigrations(
  * @param {string} migrationsFolder - The folder that contains the migration files.
  * @param {string} dotnetRoot - Path to the dotnet executable.
  * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef; otherwise, run via the local tool.
- * @returns {Promise<string>} The name of the last applied migration, or '0' if none is found.
+ * @param {string} context - The DbContext to inspect. When empty, `--context` is omitted.
+ * @returns {Promise<string>} The ID of the last applied migration, or '0' if none is found.
  * @throws {Error} If the command to list migrations fails.
  * @remarks
- * - This function identifies the last migration marked as `[applied]` in the output.
+ * - This function returns the newest migration reported as applied by `listMigrations`.
  * - Returns '0' if no migrations have been applied.
  * @example
  * ```typescript
@@ -113,39 +269,21 @@ export async function getCurrentAppliedMigration(
   home: string,
   migrationsFolder: string,
   dotnetRoot: string,
-  useGlobalDotnetEf: boolean
+  useGlobalDotnetEf: boolean,
+  context: string = ''
 ): Promise<string> {
-  if (!useGlobalDotnetEf) {
-    core.info('Ensuring local dotnet-ef tool is installed...')
-    await installDotnetEfLocally()
-  }
-
-  const baseEnv: Record<string, string> = {
-    DOTNET_ROOT: dotnetRoot,
-    HOME: process.env.HOME || home,
-    ASPNETCORE_ENVIRONMENT: envName
-  }
-
-  const migrationOptions = { cwd: migrationsFolder, env: baseEnv }
-  const efCmd = useGlobalDotnetEf ? 'dotnet-ef' : dotnetRoot
-  const efArgs = useGlobalDotnetEf
-    ? ['migrations', 'list']
-    : ['tool', 'run', 'dotnet-ef', 'migrations', 'list']
-
-  const { stdout: migrationOutput } = await exec.getExecOutput(
-    efCmd,
-    efArgs,
-    migrationOptions
+  const migrations = await listMigrations(
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
   )
-  core.info(`Full migration output:\n${migrationOutput}`)
-
-  const appliedMigrations = migrationOutput
-    .split('\n')
-    .filter((line) => line.includes('[applied]'))
-    .map((line) => line.replace(/\[applied\]/i, '').trim())
+  const appliedMigrations = migrations.filter((migration) => migration.applied)
 
   const lastApplied =
-    appliedMigrations.length > 0 ? appliedMigrations.pop()! : '0'
+    appliedMigrations.length > 0 ? appliedMigrations.pop()!.id : '0'
   core.info(`Current applied migration: ${lastApplied}`)
   return lastApplied
 }
@@ -158,10 +296,12 @@ export async function getCurrentAppliedMigration(
  * @param {string} migrationsFolder - Folder where migrations are stored.
  * @param {string} dotnetRoot - Path to the dotnet executable.
  * @param {boolean} useGlobalDotnetEf - If true, use the global dotnet-ef installation; else, run through the local tool.
- * @returns {Promise<string>} The last non-pending migration name, or '0' if none is found.
+ * @param {string} context - The DbContext to inspect. When empty, `--context` is omitted.
+ * @returns {Promise<string>} The last non-pending migration ID, or '0' if none is found.
  * @throws {Error} If the command to list migrations fails.
  * @remarks
- * - This function filters out migrations marked as `(pending)` in the output.
+ * - This function returns the newest migration that precedes the first pending one, which is the
+ *   baseline the database can be rolled back to.
  * - Returns '0' if no non-pending migrations are found.
  * @example
  * ```typescript
@@ -180,38 +320,18 @@ export async function getLastNonPendingMigration(
   home: string,
   migrationsFolder: string,
   dotnetRoot: string,
-  useGlobalDotnetEf: boolean
+  useGlobalDotnetEf: boolean,
+  context: string = ''
 ): Promise<string> {
-  if (!useGlobalDotnetEf) {
-    core.info('Ensuring local dotnet-ef tool is installed...')
-    await installDotnetEfLocally()
-  }
-
-  const baseEnv: Record<string, string> = {
-    DOTNET_ROOT: dotnetRoot,
-    HOME: process.env.HOME || home,
-    ASPNETCORE_ENVIRONMENT: envName
-  }
-
-  const migrationOptions = { cwd: migrationsFolder, env: baseEnv }
-  const efCmd = useGlobalDotnetEf ? 'dotnet-ef' : dotnetRoot
-  const efArgs = useGlobalDotnetEf
-    ? ['migrations', 'list']
-    : ['tool', 'run', 'dotnet-ef', 'migrations', 'list']
-
-  const { stdout: migrationOutput } = await exec.getExecOutput(
-    efCmd,
-    efArgs,
-    migrationOptions
+  const migrations = await listMigrations(
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
   )
-  core.info(`Full migration output:\n${migrationOutput}`)
-
-  const nonPendingMigrations = migrationOutput
-    .split('\n')
-    .filter((line) => line.trim() && !/\(pending\)/i.test(line))
-
-  const lastMigration =
-    nonPendingMigrations.length > 0 ? nonPendingMigrations.pop()! : '0'
+  const lastMigration = getBaselineMigration(migrations)
   core.info(`Last non-pending migration: ${lastMigration}`)
   return lastMigration
 }
@@ -225,10 +345,12 @@ export async function getLastNonPendingMigration(
  * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
  * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
  * @param {string} targetMigration - The migration name or ID to which the database should be rolled back.
+ * @param {string} context - The DbContext to roll back. When empty, `--context` is omitted.
  * @returns {Promise<void>} Resolves when the rollback is successful.
- * @throws {Error} If the rollback command fails.
+ * @throws {Error} If the target migration is unknown or the rollback command fails.
  * @remarks
- * - Ensure the target migration exists in the database before attempting a rollback.
+ * - The target is checked against `listMigrations` before anything is changed; '0' (an empty
+ *   database) is always accepted.
  * - This function updates the database schema to match the specified migration.
  * @example
  * ```typescript
@@ -238,7 +360,8 @@ export async function getLastNonPendingMigration(
  *   './migrations',
  *   '/usr/local/share/dotnet',
  *   true,
- *   'InitialMigration'
+ *   'InitialMigration',
+ *   'AppDbContext'
  * );
  * console.log('Rollback completed.');
  * ```
@@ -249,32 +372,350 @@ export async function rollbackMigrations(
   migrationsFolder: string,
   dotnetRoot: string,
   useGlobalDotnetEf: boolean,
-  targetMigration: string
+  targetMigration: string,
+  context: string = ''
 ): Promise<void> {
-  if (!useGlobalDotnetEf) {
-    core.info('Ensuring local dotnet-ef tool is installed...')
-    await installDotnetEfLocally()
+  const migrations = await listMigrations(
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
+  )
+  const target = migrations.find(
+    (migration) =>
+      migration.id === targetMigration || migration.name === targetMigration
+  )
+  if (targetMigration !== '0' && !target) {
+    throw new Error(
+      `Cannot roll back: migration "${targetMigration}" was not found.`
+    )
   }
 
-  core.info(`Rolling back to migration: ${targetMigration}...`)
+  core.info(
+    context
+      ? `Rolling back ${context} to migration: ${targetMigration}...`
+      : `Rolling back to migration: ${targetMigration}...`
+  )
 
-  const baseEnv = {
-    DOTNET_ROOT: dotnetRoot,
-    HOME: process.env.HOME || home,
-    ASPNETCORE_ENVIRONMENT: envName
-  }
+  await runEf(
+    { envName, home, migrationsFolder, dotnetRoot, useGlobalDotnetEf, context },
+    ['database', 'update', targetMigration]
+  )
 
-  const rollbackArgs = useGlobalDotnetEf
-    ? ['database', 'update', targetMigration]
-    : ['tool', 'run', 'dotnet-ef', 'database', 'update', targetMigration]
+  core.info('Rollback completed successfully.')
+}
 
-  const execOptions = { cwd: migrationsFolder, env: baseEnv }
+/**
+ * Generates an idempotent SQL script covering every migration after the given one.
+ *
+ * @param {string} envName - The ASP.NET Core environment name to use.
+ * @param {string} home - The home directory path to set as `HOME` in the execution environment.
+ * @param {string} migrationsFolder - The working directory where the migrations should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @param {string} fromMigration - The last applied migration; the script starts after it. Use '0' to script from an empty database.
+ * @param {string} outputPath - The path of the `.sql` file to write.
+ * @param {string} context - The DbContext to script. When empty, `--context` is omitted.
+ * @returns {Promise<string>} The absolute path of the generated script.
+ * @throws {Error} If the script command fails.
+ * @remarks
+ * - The script is generated with `--idempotent`, so it can be run against a database at any
+ *   migration between `fromMigration` and the latest one.
+ * - The target is omitted so EF scripts up to the last migration in the project.
+ * @example
+ * ```typescript
+ * const scriptPath = await generateMigrationScript(
+ *   'Production',
+ *   '/home/user',
+ *   './migrations',
+ *   '/usr/local/share/dotnet',
+ *   false,
+ *   '20240101000000_Initial',
+ *   './MigrationScripts/AppDbContext.sql',
+ *   'AppDbContext'
+ * );
+ * ```
+ */
+export async function generateMigrationScript(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  fromMigration: string,
+  outputPath: string,
+  context: string = ''
+): Promise<string> {
+  // Resolve before running EF, which executes with the migrations folder as cwd.
+  const resolvedOutputPath = path.resolve(outputPath)
+  fs.mkdirSync(path.dirname(resolvedOutputPath), { recursive: true })
+
+  core.info(
+    `Generating idempotent migration script from ${fromMigration || '0'} to ${resolvedOutputPath}...`
+  )
+
+  await runEf(
+    { envName, home, migrationsFolder, dotnetRoot, useGlobalDotnetEf, context },
+    [
+      'migrations',
+      'script',
+      fromMigration || '0',
+      '--idempotent',
+      '--output',
+      resolvedOutputPath
+    ]
+  )
+
+  core.info('Migration script generated successfully.')
+  return resolvedOutputPath
+}
 
-  await exec.exec(
+/**
+ * Generates a SQL script that moves the database from one migration to another.
+ *
+ * @param {string} envName - The ASP.NET Core environment name to use.
+ * @param {string} home - The home directory path to set as `HOME` in the execution environment.
+ * @param {string} migrationsFolder - The working directory where the migrations should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @param {string} fromMigration - The migration the script starts from ('0' for an empty database).
+ * @param {string} toMigration - The migration the script ends at. When it is older than `fromMigration`, the script runs the `Down` methods.
+ * @param {string} outputPath - The path of the `.sql` file to write.
+ * @param {string} context - The DbContext to script. When empty, `--context` is omitted.
+ * @returns {Promise<string>} The absolute path of the generated script.
+ * @throws {Error} If the script command fails.
+ * @remarks
+ * Unlike `generateMigrationScript`, the script is not idempotent: it is meant to be read or run
+ * against a database that is exactly at `fromMigration`.
+ * @example
+ * ```typescript
+ * const downgradePath = await generateMigrationRangeScript(
+ *   'Production',
+ *   '/home/user',
+ *   './migrations',
+ *   '/usr/local/share/dotnet',
+ *   false,
+ *   '20240301000000_AddOrders',
+ *   '20240101000000_Initial',
+ *   './MigrationScripts/downgrade.sql'
+ * );
+ * ```
+ */
+export async function generateMigrationRangeScript(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  fromMigration: string,
+  toMigration: string,
+  outputPath: string,
+  context: string = ''
+): Promise<string> {
+  const resolvedOutputPath = path.resolve(outputPath)
+  fs.mkdirSync(path.dirname(resolvedOutputPath), { recursive: true })
+
+  core.info(
+    `Generating migration script from ${fromMigration || '0'} to ${toMigration || '0'} at ${resolvedOutputPath}...`
+  )
+
+  await runEf(
+    { envName, home, migrationsFolder, dotnetRoot, useGlobalDotnetEf, context },
+    [
+      'migrations',
+      'script',
+      fromMigration || '0',
+      toMigration || '0',
+      '--output',
+      resolvedOutputPath
+    ]
+  )
+
+  return resolvedOutputPath
+}
+
+/**
+ * Gets the major version of the dotnet-ef tool.
+ *
+ * @param {string} migrationsFolder - The working directory where the tool should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @returns {Promise<number>} The major version, or 0 if it could not be determined.
+ * @remarks
+ * `dotnet ef --version` prints a banner followed by the version (e.g., `8.0.4`) on the last line.
+ */
+export async function getDotnetEfMajorVersion(
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean
+): Promise<number> {
+  await ensureDotnetEf(useGlobalDotnetEf)
+  const { stdout } = await exec.getExecOutput(
     useGlobalDotnetEf ? 'dotnet-ef' : dotnetRoot,
-    rollbackArgs,
-    execOptions
+    useGlobalDotnetEf
+      ? ['--version']
+      : ['tool', 'run', 'dotnet-ef', '--version'],
+    { cwd: migrationsFolder, ignoreReturnCode: true, silent: true }
   )
+  const match = stdout.match(/(\d+)\.\d+\.\d+/)
+  return match ? parseInt(match[1], 10) : 0
+}
 
-  core.info('Rollback completed successfully.')
+/**
+ * Checks whether the EF model has changes that are not covered by a migration.
+ *
+ * @param {string} envName - The ASP.NET Core environment name to use.
+ * @param {string} home - The home directory path to set as `HOME` in the execution environment.
+ * @param {string} migrationsFolder - The working directory where the migrations should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @param {string} context - The DbContext to check. When empty, `--context` is omitted.
+ * @returns {Promise<boolean>} `true` if the model has pending changes, otherwise `false`.
+ * @throws {Error} If the EF command fails for a reason other than pending changes.
+ * @remarks
+ * - On EF 8 and later, `dotnet ef migrations has-pending-model-changes` is used; it exits
+ *   non-zero when the model differs from the snapshot.
+ * - On older versions, a throwaway migration is added and inspected: if its `Up` and `Down`
+ *   methods are empty there is no drift. The migration is always removed again.
+ * @example
+ * ```typescript
+ * const drift = await hasPendingModelChanges(
+ *   'Development',
+ *   '/home/user',
+ *   './migrations',
+ *   '/usr/local/share/dotnet',
+ *   false
+ * );
+ * ```
+ */
+export async function hasPendingModelChanges(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  context: string = ''
+): Promise<boolean> {
+  const settings: EfCommandSettings = {
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    context
+  }
+
+  const efMajorVersion = await getDotnetEfMajorVersion(
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf
+  )
+  core.info(`Detected dotnet-ef major version: ${efMajorVersion || 'unknown'}`)
+
+  if (efMajorVersion >= 8) {
+    const { stdout, stderr, exitCode } = await runEf(
+      settings,
+      ['migrations', 'has-pending-model-changes'],
+      { ignoreReturnCode: true }
+    )
+    if (exitCode === 0) {
+      return false
+    }
+    if (/changes have been made to the model/i.test(`${stdout}\n${stderr}`)) {
+      return true
+    }
+    throw new Error(
+      `dotnet ef migrations has-pending-model-changes failed with exit code ${exitCode}`
+    )
+  }
+
+  // Older EF versions: scaffold a throwaway migration and check whether it is empty.
+  const probeName = `PendingModelChangesCheck${Date.now()}`
+  const { stdout: addOutput } = await runEf(settings, [
+    'migrations',
+    'add',
+    probeName,
+    '--json',
+    '--prefix-output'
+  ])
+
+  try {
+    const { migrationFile } = JSON.parse(readPrefixedJson(addOutput)) as {
+      migrationFile: string
+    }
+    const migrationSource = fs.readFileSync(migrationFile, 'utf8')
+    const emptyMethod = (name: string) =>
+      new RegExp(
+        `void\\s+${name}\\s*\\(\\s*MigrationBuilder\\s+\\w+\\s*\\)\\s*\\{\\s*\\}`
+      ).test(migrationSource)
+    return !(emptyMethod('Up') && emptyMethod('Down'))
+  } finally {
+    await runEf(settings, ['migrations', 'remove', '--force'])
+  }
+}
+
+/**
+ * Builds a self-contained EF Core migration bundle for a runtime.
+ *
+ * @param {string} envName - The ASP.NET Core environment name to use.
+ * @param {string} home - The home directory path to set as `HOME` in the execution environment.
+ * @param {string} migrationsFolder - The working directory where the migrations should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @param {string} runtime - The target runtime identifier (e.g., 'linux-x64').
+ * @param {string} outputPath - The path of the bundle executable to write.
+ * @param {string} context - The DbContext to bundle. When empty, `--context` is omitted.
+ * @returns {Promise<string>} The absolute path of the generated bundle.
+ * @throws {Error} If the bundle command fails.
+ * @remarks
+ * The bundle is built with `--self-contained`, so it runs on hosts without the .NET SDK.
+ * Existing bundles at `outputPath` are overwritten.
+ * @example
+ * ```typescript
+ * const bundlePath = await buildMigrationBundle(
+ *   'Production',
+ *   '/home/user',
+ *   './migrations',
+ *   '/usr/local/share/dotnet',
+ *   false,
+ *   'linux-x64',
+ *   './publish/efbundle/efbundle-linux-x64'
+ * );
+ * ```
+ */
+export async function buildMigrationBundle(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  runtime: string,
+  outputPath: string,
+  context: string = ''
+): Promise<string> {
+  const resolvedOutputPath = path.resolve(outputPath)
+  fs.mkdirSync(path.dirname(resolvedOutputPath), { recursive: true })
+
+  core.info(
+    `Building migration bundle for ${runtime} at ${resolvedOutputPath}...`
+  )
+
+  await runEf(
+    { envName, home, migrationsFolder, dotnetRoot, useGlobalDotnetEf, context },
+    [
+      'migrations',
+      'bundle',
+      '--self-contained',
+      '--runtime',
+      runtime,
+      '--output',
+      resolvedOutputPath,
+      '--force'
+    ]
+  )
+
+  core.info('Migration bundle built successfully.')
+  return resolvedOutputPath
 }
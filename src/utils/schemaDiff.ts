@@ -0,0 +1,454 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { generateMigrationRangeScript } from './migrations.js'
+import { escapeHtml } from './summary.js'
+
+/**
+ * A schema change found in a migration script.
+ *
+ * @property change - 'added', 'removed', 'changed' or 'renamed'.
+ * @property kind - 'table', 'column', 'index', 'foreign key' or 'constraint'.
+ * @property name - The affected object, qualified by its table (e.g., 'Users.Email').
+ * @property details - Column types, index columns, referenced tables or the new name.
+ */
+export interface SchemaChange {
+  change: 'added' | 'removed' | 'changed' | 'renamed'
+  kind: 'table' | 'column' | 'index' | 'foreign key' | 'constraint'
+  name: string
+  details: string
+}
+
+/**
+ * The schema diff of one DbContext between two migrations.
+ *
+ * @property context - The DbContext name, or an empty string for the default context.
+ * @property from - The baseline migration ('0' for an empty database).
+ * @property to - The newest applied migration.
+ * @property changes - The schema changes, in script order.
+ */
+export interface SchemaDiff {
+  context: string
+  from: string
+  to: string
+  changes: SchemaChange[]
+}
+
+const IDENTIFIER =
+  String.raw`(?:"[^"]+"|\[[^\]]+\]|` + '`[^`]+`' + String.raw`|[\w$]+)`
+const QUALIFIED = `(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)`
+
+function unquote(identifier: string): string {
+  return identifier
+    .split(/\s*\.\s*/)
+    .map((part) => part.replace(/^["[`]|["\]`]$/g, ''))
+    .join('.')
+}
+
+function unquoteList(list: string): string {
+  return list
+    .split(',')
+    .map((item) => unquote(item.trim()))
+    .join(', ')
+}
+
+/**
+ * Splits a comma-separated list at the top level, ignoring commas inside parentheses.
+ */
+function splitTopLevel(list: string): string[] {
+  const items: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of list) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      items.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) items.push(current.trim())
+  return items
+}
+
+/**
+ * Returns the text between the first `(` and its matching `)`.
+ */
+function parenthesized(statement: string): string {
+  const open = statement.indexOf('(')
+  let depth = 0
+  for (let i = open; open !== -1 && i < statement.length; i++) {
+    if (statement[i] === '(') depth++
+    if (statement[i] === ')' && --depth === 0) {
+      return statement.slice(open + 1, i)
+    }
+  }
+  return ''
+}
+
+function describeForeignKey(definition: string): string {
+  const match = definition.match(
+    new RegExp(
+      `FOREIGN KEY\\s*\\(([^)]+)\\)\\s*REFERENCES\\s+${QUALIFIED}\\s*\\(([^)]+)\\)`,
+      'i'
+    )
+  )
+  return match
+    ? `(${unquoteList(match[1])}) → ${unquote(match[2])} (${unquoteList(match[3])})`
+    : ''
+}
+
+/**
+ * Extracts table, column, index and foreign key changes from a migration SQL script.
+ *
+ * @param {string} script - The SQL generated by `dotnet ef migrations script`.
+ * @returns {SchemaChange[]} The changes, in script order. Repeated changes to the same object are merged.
+ *
+ * @example
+ * const changes = parseSchemaChanges('ALTER TABLE "Users" ADD "Email" text NULL;')
+ * // [{ change: 'added', kind: 'column', name: 'Users.Email', details: 'text NULL' }]
+ *
+ * @remarks
+ * - The statements EF emits for PostgreSQL, SQL Server, MySQL and SQLite are understood; identifier
+ *   quotes (`"x"`, `[x]`, `` `x` ``) are removed.
+ * - Data statements, the `__EFMigrationsHistory` bookkeeping and SQL Server's default-constraint
+ *   housekeeping are ignored.
+ * - SQLite table rebuilds (`ef_temp_<Table>`) are reported as a changed table.
+ */
+export function parseSchemaChanges(script: string): SchemaChange[] {
+  const changes: SchemaChange[] = []
+  const add = (change: SchemaChange) => {
+    const existing = changes.find(
+      (item) =>
+        item.change === change.change &&
+        item.kind === change.kind &&
+        item.name === change.name
+    )
+    if (existing) {
+      existing.details = [existing.details, change.details]
+        .filter((details) => details)
+        .join('; ')
+    } else {
+      changes.push(change)
+    }
+  }
+
+  const statements = script
+    .replace(/^\s*--.*$/gm, '')
+    .split(/;\s*$|^\s*GO\s*$/im)
+    .map((statement) => statement.replace(/\s+/g, ' ').trim())
+    .filter(
+      (statement) => statement && !/__EFMigrationsHistory/i.test(statement)
+    )
+
+  for (const statement of statements) {
+    let match: RegExpMatchArray | null
+
+    if (
+      (match = statement.match(new RegExp(`^CREATE TABLE ${QUALIFIED}`, 'i')))
+    ) {
+      const table = unquote(match[1])
+      if (/^ef_temp_/i.test(table.split('.').pop()!)) continue
+      const columns: string[] = []
+      const foreignKeys: SchemaChange[] = []
+      for (const item of splitTopLevel(parenthesized(statement))) {
+        if (/^CONSTRAINT\b/i.test(item)) {
+          const foreignKey = describeForeignKey(item)
+          const name = item.match(new RegExp(`^CONSTRAINT ${QUALIFIED}`, 'i'))
+          if (foreignKey && name) {
+            foreignKeys.push({
+              change: 'added',
+              kind: 'foreign key',
+              name: `${table}.${unquote(name[1])}`,
+              details: foreignKey
+            })
+          }
+          continue
+        }
+        const column = item.match(new RegExp(`^${QUALIFIED}\\s+(\\S+)`))
+        if (column) columns.push(`${unquote(column[1])} ${column[2]}`)
+      }
+      add({
+        change: 'added',
+        kind: 'table',
+        name: table,
+        details: columns.join(', ')
+      })
+      foreignKeys.forEach(add)
+    } else if (
+      (match = statement.match(new RegExp(`^DROP TABLE ${QUALIFIED}`, 'i')))
+    ) {
+      add({
+        change: 'removed',
+        kind: 'table',
+        name: unquote(match[1]),
+        details: ''
+      })
+    } else if (
+      (match = statement.match(
+        new RegExp(`^ALTER TABLE ${QUALIFIED} RENAME TO ${QUALIFIED}`, 'i')
+      ))
+    ) {
+      const from = unquote(match[1])
+      const to = unquote(match[2])
+      const rebuilt = from.replace(/^(.*\.)?ef_temp_/i, '$1')
+      if (rebuilt !== from && rebuilt === to) {
+        const dropped = changes.findIndex(
+          (item) =>
+            item.change === 'removed' &&
+            item.kind === 'table' &&
+            item.name === to
+        )
+        if (dropped !== -1) changes.splice(dropped, 1)
+        add({
+          change: 'changed',
+          kind: 'table',
+          name: to,
+          details: 'table rebuilt'
+        })
+      } else {
+        add({
+          change: 'renamed',
+          kind: 'table',
+          name: from,
+          details: `to ${to}`
+        })
+      }
+    } else if (
+      (match = statement.match(
+        new RegExp(`^ALTER TABLE ${QUALIFIED} (.*)$`, 'i')
+      ))
+    ) {
+      const table = unquote(match[1])
+      const action = match[2]
+      let part: RegExpMatchArray | null
+
+      if (
+        (part = action.match(
+          new RegExp(`^ADD CONSTRAINT ${QUALIFIED} (.*)$`, 'i')
+        ))
+      ) {
+        const foreignKey = describeForeignKey(part[2])
+        add({
+          change: 'added',
+          kind: foreignKey ? 'foreign key' : 'constraint',
+          name: `${table}.${unquote(part[1])}`,
+          details: foreignKey || part[2]
+        })
+      } else if (
+        (part = action.match(
+          new RegExp(`^DROP (?:CONSTRAINT|FOREIGN KEY) ${QUALIFIED}`, 'i')
+        ))
+      ) {
+        const name = unquote(part[1])
+        add({
+          change: 'removed',
+          kind:
+            /^FK_/i.test(name) || /^DROP FOREIGN KEY/i.test(action)
+              ? 'foreign key'
+              : 'constraint',
+          name: `${table}.${name}`,
+          details: ''
+        })
+      } else if (
+        (part = action.match(new RegExp(`^DROP INDEX ${QUALIFIED}`, 'i')))
+      ) {
+        add({
+          change: 'removed',
+          kind: 'index',
+          name: `${table}.${unquote(part[1])}`,
+          details: ''
+        })
+      } else if (
+        (part = action.match(new RegExp(`^DROP (?:COLUMN )?${QUALIFIED}`, 'i')))
+      ) {
+        add({
+          change: 'removed',
+          kind: 'column',
+          name: `${table}.${unquote(part[1])}`,
+          details: ''
+        })
+      } else if (
+        (part = action.match(
+          new RegExp(`^RENAME COLUMN ${QUALIFIED} TO ${QUALIFIED}`, 'i')
+        ))
+      ) {
+        add({
+          change: 'renamed',
+          kind: 'column',
+          name: `${table}.${unquote(part[1])}`,
+          details: `to ${unquote(part[2])}`
+        })
+      } else if (
+        (part = action.match(
+          new RegExp(`^RENAME INDEX ${QUALIFIED} TO ${QUALIFIED}`, 'i')
+        ))
+      ) {
+        add({
+          change: 'renamed',
+          kind: 'index',
+          name: `${table}.${unquote(part[1])}`,
+          details: `to ${unquote(part[2])}`
+        })
+      } else if (
+        (part = action.match(
+          new RegExp(`^(?:ALTER|MODIFY)(?: COLUMN)? ${QUALIFIED} (.*)$`, 'i')
+        ))
+      ) {
+        add({
+          change: 'changed',
+          kind: 'column',
+          name: `${table}.${unquote(part[1])}`,
+          details: part[2]
+        })
+      } else if (
+        (part = action.match(
+          new RegExp(`^ADD (?:COLUMN )?${QUALIFIED} (.*)$`, 'i')
+        ))
+      ) {
+        add({
+          change: 'added',
+          kind: 'column',
+          name: `${table}.${unquote(part[1])}`,
+          details: part[2]
+        })
+      }
+    } else if (
+      (match = statement.match(
+        new RegExp(
+          `^CREATE (UNIQUE )?(?:(?:NON)?CLUSTERED )?INDEX ${QUALIFIED} ON ${QUALIFIED}\\s*\\(([^)]+)\\)`,
+          'i'
+        )
+      ))
+    ) {
+      add({
+        change: 'added',
+        kind: 'index',
+        name: `${unquote(match[3])}.${unquote(match[2])}`,
+        details: `${match[1] ? 'unique ' : ''}(${unquoteList(match[4])})`
+      })
+    } else if (
+      (match = statement.match(
+        new RegExp(`^DROP INDEX ${QUALIFIED}(?: ON ${QUALIFIED})?`, 'i')
+      ))
+    ) {
+      const index = unquote(match[1])
+      add({
+        change: 'removed',
+        kind: 'index',
+        name: match[2] ? `${unquote(match[2])}.${index}` : index,
+        details: ''
+      })
+    } else if (
+      (match = statement.match(
+        /^EXEC sp_rename N'([^']+)', N'([^']+)'(?:, N'(\w+)')?/i
+      ))
+    ) {
+      const kind = (match[3] || 'OBJECT').toUpperCase()
+      add({
+        change: 'renamed',
+        kind:
+          kind === 'COLUMN' ? 'column' : kind === 'INDEX' ? 'index' : 'table',
+        name: unquote(match[1]),
+        details: `to ${match[2]}`
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Builds the schema diff of a DbContext from `dotnet ef migrations script <from> <to>`.
+ *
+ * @param {string} envName - The ASP.NET Core environment name to use.
+ * @param {string} home - The home directory path to set as `HOME` in the execution environment.
+ * @param {string} migrationsFolder - The working directory where the migrations should be run.
+ * @param {string} dotnetRoot - Path to the local dotnet executable or root directory.
+ * @param {boolean} useGlobalDotnetEf - Whether to use a globally installed `dotnet-ef` CLI tool.
+ * @param {string} fromMigration - The baseline migration ('0' for an empty database).
+ * @param {string} toMigration - The newest applied migration.
+ * @param {string} context - The DbContext to diff. When empty, `--context` is omitted.
+ * @returns {Promise<SchemaDiff>} The changes between the two migrations.
+ * @throws {Error} If the script cannot be generated.
+ */
+export async function getSchemaDiff(
+  envName: string,
+  home: string,
+  migrationsFolder: string,
+  dotnetRoot: string,
+  useGlobalDotnetEf: boolean,
+  fromMigration: string,
+  toMigration: string,
+  context: string = ''
+): Promise<SchemaDiff> {
+  const scriptPath = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    `schema-diff-${context || 'default'}-${Date.now()}.sql`
+  )
+  await generateMigrationRangeScript(
+    envName,
+    home,
+    migrationsFolder,
+    dotnetRoot,
+    useGlobalDotnetEf,
+    fromMigration,
+    toMigration,
+    scriptPath,
+    context
+  )
+  try {
+    return {
+      context,
+      from: fromMigration || '0',
+      to: toMigration,
+      changes: parseSchemaChanges(fs.readFileSync(scriptPath, 'utf8'))
+    }
+  } finally {
+    fs.rmSync(scriptPath, { force: true })
+  }
+}
+
+/**
+ * Writes schema diffs to the GitHub job summary.
+ *
+ * @param {string} title - The summary heading (e.g., 'Schema changes').
+ * @param {SchemaDiff[]} diffs - One diff per migrated DbContext.
+ * @returns {Promise<void>} Resolves when the summary has been written.
+ */
+export async function writeSchemaDiffSummary(
+  title: string,
+  diffs: SchemaDiff[]
+): Promise<void> {
+  core.summary.addHeading(title, 2)
+
+  for (const diff of diffs) {
+    core.summary.addRaw(
+      `<p>${diff.context ? `<strong>${escapeHtml(diff.context)}</strong>: ` : ''}<code>${escapeHtml(diff.from)}</code> → <code>${escapeHtml(diff.to)}</code></p>`,
+      true
+    )
+    if (diff.changes.length === 0) {
+      core.summary.addRaw('<p>No schema changes.</p>', true)
+      continue
+    }
+    core.summary.addTable([
+      [
+        { data: 'Change', header: true },
+        { data: 'Kind', header: true },
+        { data: 'Object', header: true },
+        { data: 'Details', header: true }
+      ],
+      ...diff.changes.map((change) => [
+        change.change,
+        change.kind,
+        escapeHtml(change.name),
+        escapeHtml(change.details)
+      ])
+    ])
+  }
+
+  await core.summary.write()
+}
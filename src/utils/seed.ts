@@ -0,0 +1,162 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs'
+import * as path from 'path'
+import { executeSql, getConnectionString } from './database.js'
+import { getConnectionStringEnv } from './connectionStrings.js'
+
+/** Table that records which seed scripts have run. */
+export const SEED_HISTORY_TABLE = '__SeedHistory'
+
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function createHistoryTableSql(provider: string): string {
+  const columns =
+    'ScriptName VARCHAR(255) NOT NULL PRIMARY KEY, AppliedAt VARCHAR(32) NOT NULL'
+  return provider.toLowerCase() === 'sqlserver'
+    ? `IF OBJECT_ID(N'${SEED_HISTORY_TABLE}') IS NULL CREATE TABLE ${SEED_HISTORY_TABLE} (${columns})`
+    : `CREATE TABLE IF NOT EXISTS ${SEED_HISTORY_TABLE} (${columns})`
+}
+
+/**
+ * Runs a project-provided seed command (e.g., `dotnet run --project src/Web -- seed`).
+ *
+ * @param {string} command - The command line to run.
+ * @param {string} envName - The ASP.NET Core environment name.
+ * @param {string} home - Home directory to set for environment variables.
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @returns {Promise<void>} Resolves when the command succeeds.
+ * @throws {Error} If the command exits with a non-zero code.
+ *
+ * @remarks
+ * The command gets the same `DOTNET_ROOT`, `HOME`, `ASPNETCORE_ENVIRONMENT` and
+ * `ConnectionStrings__*` variables as the `dotnet ef` commands, so it connects to the database that
+ * was just migrated. It runs on every invocation and should therefore be idempotent.
+ */
+export async function runSeedCommand(
+  command: string,
+  envName: string,
+  home: string,
+  dotnetRoot: string
+): Promise<void> {
+  core.info(`Running seed command: ${command}`)
+  await exec.exec(command, [], {
+    env: {
+      ...(process.env as Record<string, string>),
+      DOTNET_ROOT: dotnetRoot,
+      HOME: process.env.HOME || home,
+      ASPNETCORE_ENVIRONMENT: envName,
+      ...getConnectionStringEnv()
+    }
+  })
+  core.info('Seed command completed successfully.')
+}
+
+/**
+ * Runs the `.sql` scripts of a folder that have not run against the database yet.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver', 'mysql' or 'sqlite'.
+ * @param {string} connectionString - The connection string of the database.
+ * @param {string} scriptsFolder - The folder that contains the seed scripts.
+ * @returns {Promise<string[]>} The names of the scripts that ran, in order.
+ * @throws {Error} If the folder does not exist or a script fails.
+ *
+ * @example
+ * const applied = await runSeedScripts('postgres', getConnectionString('DefaultConnection'), './seed')
+ *
+ * @remarks
+ * - Scripts run in file name order, so prefix them with a number or timestamp (`001_roles.sql`).
+ * - Each script is recorded in the `__SeedHistory` table after it succeeds and is skipped on later
+ *   runs. A failing script stops the step and is not recorded, so it runs again next time.
+ */
+export async function runSeedScripts(
+  provider: string,
+  connectionString: string,
+  scriptsFolder: string
+): Promise<string[]> {
+  if (!fs.existsSync(scriptsFolder)) {
+    throw new Error(`Seed scripts folder does not exist: ${scriptsFolder}`)
+  }
+
+  await executeSql(provider, connectionString, {
+    query: createHistoryTableSql(provider)
+  })
+  const noCount =
+    provider.toLowerCase() === 'sqlserver' ? 'SET NOCOUNT ON; ' : ''
+  const output = await executeSql(provider, connectionString, {
+    query: `${noCount}SELECT ScriptName FROM ${SEED_HISTORY_TABLE}`
+  })
+  const alreadyApplied = new Set(
+    output
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line)
+  )
+
+  const scripts = fs
+    .readdirSync(scriptsFolder)
+    .filter((name) => name.toLowerCase().endsWith('.sql'))
+    .sort()
+  const applied: string[] = []
+
+  for (const script of scripts) {
+    if (alreadyApplied.has(script)) {
+      core.info(`Seed script ${script} already applied; skipping.`)
+      continue
+    }
+    core.info(`Applying seed script ${script}...`)
+    await executeSql(provider, connectionString, {
+      file: path.resolve(scriptsFolder, script)
+    })
+    await executeSql(provider, connectionString, {
+      query: `INSERT INTO ${SEED_HISTORY_TABLE} (ScriptName, AppliedAt) VALUES (${quoteSqlString(script)}, ${quoteSqlString(new Date().toISOString())})`
+    })
+    applied.push(script)
+  }
+
+  core.info(
+    applied.length > 0
+      ? `Applied ${applied.length} seed script(s): ${applied.join(', ')}`
+      : 'No new seed scripts to apply.'
+  )
+  return applied
+}
+
+/**
+ * Seeds the database after migrations: runs the seed command, then the pending seed scripts.
+ *
+ * @param {string} command - The seed command, or an empty string to skip it.
+ * @param {string} scriptsFolder - The seed scripts folder, or an empty string to skip scripts.
+ * @param {string} envName - The ASP.NET Core environment name.
+ * @param {string} home - Home directory to set for environment variables.
+ * @param {string} dotnetRoot - Path to the dotnet executable.
+ * @param {string} provider - The database provider used to run the scripts.
+ * @param {string} connectionName - The connection string name, read from `ConnectionStrings__<Name>`.
+ * @returns {Promise<void>} Resolves when seeding is complete.
+ * @throws {Error} If the command or a script fails, or scripts are configured without a provider or connection string.
+ */
+export async function seedDatabase(
+  command: string,
+  scriptsFolder: string,
+  envName: string,
+  home: string,
+  dotnetRoot: string,
+  provider: string,
+  connectionName: string
+): Promise<void> {
+  if (command) {
+    await runSeedCommand(command, envName, home, dotnetRoot)
+  }
+
+  if (scriptsFolder) {
+    const connectionString = getConnectionString(connectionName)
+    if (!provider || !connectionString) {
+      throw new Error(
+        `Cannot run seed scripts: database_provider and the ConnectionStrings__${connectionName} connection string are required.`
+      )
+    }
+    await runSeedScripts(provider, connectionString, scriptsFolder)
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Escapes text for the HTML of the GitHub job summary.
+ *
+ * @param {string} value - The text, such as a test, table or migration name.
+ * @returns {string} The text with `&`, `<` and `>` replaced by HTML entities.
+ *
+ * @example
+ * escapeHtml('List<Order>') // 'List&lt;Order&gt;'
+ *
+ * @remarks
+ * `core.summary` inserts headings, table cells and code blocks as raw HTML, so every name that
+ * comes from the repository or the database goes through this function first.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
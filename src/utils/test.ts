@@ -2,27 +2,230 @@ import * as core from '@actions/core'
 import * as path from 'path'
 import * as fs from 'fs'
 import * as exec from '@actions/exec'
-import { installDotnetEfLocally } from './dotnet.js'
+import { ensureDotnetEf } from './efRunner.js'
+import { getCoverageFolder } from './coverage.js'
+import { readTestResultsFile } from './testResults.js'
+import { buildTestFilter } from './testShards.js'
 
 /**
- * Executes .NET tests in a specified folder with a given configuration and uploads the test results as artifacts.
+ * A `dotnet test` logger and the file it writes.
+ *
+ * @property logger - The value passed to `--logger` (e.g., 'trx;LogFileName=/work/TestResults/TestResults.trx').
+ * @property filePath - The absolute path of the file the logger writes, or an empty string for the console logger.
+ */
+export interface TestLogger {
+  logger: string
+  filePath: string
+}
+
+const LOGGER_EXTENSIONS: Record<string, string> = {
+  junit: 'junit.xml',
+  nunit: 'nunit.xml',
+  xunit: 'xunit.xml'
+}
+
+/**
+ * Splits a newline-separated list of `dotnet test` loggers.
+ *
+ * @param {string} loggers - One logger per line (e.g., 'trx\njunit\nconsole;verbosity=normal').
+ * @returns {string[]} The trimmed, non-empty logger entries.
+ *
+ * @remarks
+ * Loggers are separated by newlines rather than commas because logger parameters may contain both
+ * `;` and `,`.
+ */
+export function parseTestLoggers(loggers: string): string[] {
+  return loggers
+    .split(/\r?\n/)
+    .map((logger) => logger.trim())
+    .filter((logger) => logger)
+}
+
+/**
+ * Resolves the `--logger` values of a test run and the files they write.
+ *
+ * @param {string[]} loggers - The logger entries (e.g., `['trx', 'junit', 'html;LogFileName=report.html']`).
+ * @param {string} testOutputFolder - The folder the result files are written to.
+ * @returns {TestLogger[]} One entry per logger, in order.
+ *
+ * @example
+ * resolveTestLoggers(['trx', 'junit', 'console;verbosity=normal'], 'TestResults')
+ * // [
+ * //   { logger: 'trx;LogFileName=/work/TestResults/TestResults.trx', filePath: '/work/TestResults/TestResults.trx' },
+ * //   { logger: 'junit;LogFileName=/work/TestResults/TestResults.junit.xml', filePath: '/work/TestResults/TestResults.junit.xml' },
+ * //   { logger: 'console;verbosity=normal', filePath: '' }
+ * // ]
+ *
+ * @remarks
+ * - A logger without `LogFileName` writes `TestResults.<name>` (`TestResults.junit.xml` for `junit`,
+ *   `nunit` and `xunit`), so several loggers never overwrite each other.
+ * - A relative `LogFileName` is resolved against `testOutputFolder`.
+ * - A logger whose file is already written by an earlier logger gets a numbered file instead
+ *   (`TestResults.2.trx` for a second `trx`).
+ * - The `console` logger writes no file and is passed through unchanged.
+ * - Without any loggers, a single `trx` logger is used.
+ */
+export function resolveTestLoggers(
+  loggers: string[],
+  testOutputFolder: string
+): TestLogger[] {
+  const resolvedOutputFolder = path.resolve(testOutputFolder)
+  const usedFiles = new Set<string>()
+  return (loggers.length > 0 ? loggers : ['trx']).map((entry) => {
+    const [name, ...parameters] = entry.split(';').map((part) => part.trim())
+    const loggerName = name.toLowerCase()
+    if (loggerName === 'console') {
+      return { logger: entry, filePath: '' }
+    }
+
+    const fileParameter = parameters.findIndex((parameter) =>
+      /^LogFileName\s*=/i.test(parameter)
+    )
+    let filePath =
+      fileParameter >= 0
+        ? path.resolve(
+            resolvedOutputFolder,
+            parameters[fileParameter].replace(/^LogFileName\s*=\s*/i, '')
+          )
+        : path.join(
+            resolvedOutputFolder,
+            `TestResults.${LOGGER_EXTENSIONS[loggerName] || loggerName}`
+          )
+    if (fileParameter >= 0) {
+      parameters.splice(fileParameter, 1)
+    }
+    const extension = path.extname(filePath)
+    const baseName = filePath.slice(0, filePath.length - extension.length)
+    for (let copy = 2; usedFiles.has(filePath); copy++) {
+      filePath = `${baseName}.${copy}${extension}`
+    }
+    usedFiles.add(filePath)
+    return {
+      logger: [name, ...parameters, `LogFileName=${filePath}`].join(';'),
+      filePath
+    }
+  })
+}
+
+/**
+ * Longest `--filter` argument passed on the command line. Longer filters go through a runsettings
+ * file, because Windows limits the whole command line to 32 KB and Linux each argument to 128 KB.
+ */
+const MAX_FILTER_ARGUMENT_LENGTH = 30000
+
+/**
+ * Returns the `dotnet test` arguments that apply a test filter.
+ *
+ * @param {string} filter - The `--filter` expression (e.g., from `buildTestFilter`); empty selects all tests.
+ * @param {string} settingsFile - The runsettings file written when the filter is too long for the command line.
+ * @returns {string[]} The arguments: none, `--filter <filter>`, or `--settings <settingsFile>`.
+ *
+ * @example
+ * getTestFilterArgs('Name=Creates', 'TestResults/TestFilter.runsettings')
+ * // ['--filter', 'Name=Creates']
+ *
+ * @remarks
+ * A filter longer than 30,000 characters, as built for a large shard, is written to the
+ * `RunConfiguration/TestCaseFilter` element of `settingsFile` instead, so `dotnet test` still starts.
+ */
+export function getTestFilterArgs(
+  filter: string,
+  settingsFile: string
+): string[] {
+  if (!filter) {
+    return []
+  }
+  if (filter.length <= MAX_FILTER_ARGUMENT_LENGTH) {
+    return ['--filter', filter]
+  }
+
+  const escapedFilter = filter
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+  fs.mkdirSync(path.dirname(path.resolve(settingsFile)), { recursive: true })
+  fs.writeFileSync(
+    settingsFile,
+    `<?xml version="1.0" encoding="utf-8"?>
+<RunSettings>
+  <RunConfiguration>
+    <TestCaseFilter>${escapedFilter}</TestCaseFilter>
+  </RunConfiguration>
+</RunSettings>
+`
+  )
+  core.info(
+    `The test filter has ${filter.length} characters; passing it through ${settingsFile}.`
+  )
+  return ['--settings', path.resolve(settingsFile)]
+}
+
+/**
+ * Returns the folder the TRX files of retried tests are written to.
+ *
+ * @param {string} testOutputFolder - The test output folder.
+ * @returns {string} The absolute path of the retry folder.
+ */
+export function getRetryFolder(testOutputFolder: string): string {
+  return path.resolve(testOutputFolder, 'retries')
+}
+
+/**
+ * Lists the TRX files written by retry attempts, in attempt order.
+ *
+ * @param {string} testOutputFolder - The test output folder.
+ * @returns {string[]} The absolute paths of the `TestResults.retry-<n>.trx` files.
+ */
+export function listRetryResultFiles(testOutputFolder: string): string[] {
+  const retryFolder = getRetryFolder(testOutputFolder)
+  if (!fs.existsSync(retryFolder)) return []
+  return fs
+    .readdirSync(retryFolder)
+    .map((name) => ({
+      name,
+      attempt: name.match(/^TestResults\.retry-(\d+)\.trx$/)
+    }))
+    .filter((file) => file.attempt)
+    .sort((a, b) => Number(a.attempt![1]) - Number(b.attempt![1]))
+    .map((file) => path.join(retryFolder, file.name))
+}
+
+/**
+ * Executes .NET tests in a specified folder with the given loggers.
  *
  * @param {string} envName - The environment name to set for the test execution (e.g., 'Development', 'Production').
  * @param {string} testFolder - The folder containing the test project to execute.
  * @param {string} testOutputFolder - The folder where test result files will be stored.
- * @param {string} testFormat - The format for test results (e.g., 'trx', 'html', 'json'). If provided, test results will be logged to a file.
+ * @param {string[]} testLoggers - The loggers to pass to `dotnet test` (e.g., `['trx', 'html']`). See `resolveTestLoggers`.
  * @param {boolean} useGlobalDotnetEf - A flag indicating whether to use the global dotnet-ef tool or install a local version.
+ * @param {boolean} collectCoverage - Whether to collect Cobertura coverage with the XPlat Code Coverage collector (coverlet).
+ * @param {string} filter - A `--filter` expression selecting the tests to run (e.g., from `buildTestFilter`); empty runs all tests.
+ * @param {number} retries - How often failed tests are re-run on their own before the run counts as failed. Needs a `trx` logger.
+ * @param {string[]} quarantinedTests - Fully qualified names of tests whose failures do not fail the run (see `parseQuarantine`). Needs a `trx` logger.
+ *
+ * @returns {Promise<void>} A Promise that resolves when the test execution is complete.
+ *
+ * @throws {Error} Throws an error if the test execution fails.
  *
- * @returns {Promise<void>} A Promise that resolves when the test execution and artifact upload process is complete.
+ * @remarks
+ * When `dotnet test` fails and `retries` is set, only the tests that failed are run again with a
+ * generated `--filter`, each attempt writing `TestResults.retry-<n>.trx` to the retry folder (see
+ * `getRetryFolder`). The run succeeds when an attempt passes; the tests that passed on a retry are
+ * reported as flaky by `mergeRetryResults`.
  *
- * @throws {Error} Throws an error if the test execution fails or if artifact upload encounters an issue.
+ * Quarantined tests still run. When every test that failed (on the last attempt) is quarantined,
+ * the run succeeds with a warning instead of failing.
  */
 export async function tests(
   envName: string,
   testFolder: string,
   testOutputFolder: string,
-  testFormat: string,
-  useGlobalDotnetEf: boolean
+  testLoggers: string[],
+  useGlobalDotnetEf: boolean,
+  collectCoverage: boolean = false,
+  filter: string = '',
+  retries: number = 0,
+  quarantinedTests: string[] = []
 ): Promise<void> {
   core.info(`Setting DOTNET_ENVIRONMENT to "${envName}" for test execution...`)
 
@@ -35,7 +238,7 @@ export async function tests(
   if (!useGlobalDotnetEf) {
     core.info('Installing dotnet-ef locally...')
     try {
-      await installDotnetEfLocally()
+      await ensureDotnetEf(useGlobalDotnetEf)
       core.info('dotnet-ef successfully installed locally.')
     } catch (error: unknown) {
       if (error instanceof Error) {
@@ -57,38 +260,97 @@ export async function tests(
   core.info(`Running tests in folder: ${testFolder}...`)
 
   // Initialize the arguments for the dotnet test command.
-  const args = ['test', testFolder, '--verbosity', 'detailed']
-
-  // Determine the output result file path if a test format is provided.
-  const resolvedOutputFolder = path.resolve(testOutputFolder)
-  let resultFilePath = ''
+  const baseArgs = ['test', testFolder, '--verbosity', 'detailed']
+  const args = [
+    ...baseArgs,
+    ...getTestFilterArgs(
+      filter,
+      path.join(testOutputFolder, 'TestFilter.runsettings')
+    )
+  ]
 
-  if (testFormat) {
-    // Construct the test result file's full path.
-    const resultFileName = `TestResults.${testFormat}`
-    resultFilePath = path.join(resolvedOutputFolder, resultFileName)
+  // Add a --logger argument per logger, each writing its own file to the output folder.
+  const loggers = resolveTestLoggers(testLoggers, testOutputFolder)
+  if (loggers.some((logger) => logger.filePath)) {
+    fs.mkdirSync(path.resolve(testOutputFolder), { recursive: true })
+  }
+  for (const { logger } of loggers) {
+    args.push('--logger', logger)
+  }
 
-    // Ensure the output directory exists.
-    fs.mkdirSync(resolvedOutputFolder, { recursive: true })
+  // Collect coverage into a clean folder so only this run's reports are found afterwards.
+  if (collectCoverage) {
+    const coverageFolder = getCoverageFolder(testOutputFolder)
+    fs.rmSync(coverageFolder, { recursive: true, force: true })
+    args.push(
+      '--collect',
+      'XPlat Code Coverage',
+      '--results-directory',
+      coverageFolder
+    )
+  }
 
-    // Append logger parameters to the dotnet test arguments.
-    args.push('--logger', `${testFormat};LogFileName=${resultFilePath}`)
+  // Retries read the failed tests from the TRX of the previous attempt.
+  const retryFolder = getRetryFolder(testOutputFolder)
+  fs.rmSync(retryFolder, { recursive: true, force: true })
+  const trxFile = loggers.find((logger) =>
+    logger.filePath.toLowerCase().endsWith('.trx')
+  )?.filePath
+  if (retries > 0 && !trxFile) {
+    core.warning(
+      'Failed tests are not retried because no trx logger is configured.'
+    )
+  }
+  if (quarantinedTests.length > 0 && !trxFile) {
+    core.warning(
+      'Quarantined tests are not applied because no trx logger is configured.'
+    )
   }
 
   let testExecError: Error | undefined
 
   try {
-    // Execute the dotnet test command.
-    core.info(`Executing command: dotnet ${args.join(' ')}`)
-    const { stdout, stderr, exitCode } = await exec.getExecOutput(
-      'dotnet',
-      args
-    )
+    let exitCode = await runDotnetTest(args)
+    let failedTests =
+      exitCode !== 0 && (retries > 0 || quarantinedTests.length > 0) && trxFile
+        ? readFailedTests(trxFile)
+        : []
+
+    for (
+      let attempt = 1;
+      exitCode !== 0 && attempt <= retries && failedTests.length > 0;
+      attempt++
+    ) {
+      core.info(
+        `Retrying ${failedTests.length} failed test(s), attempt ${attempt} of ${retries}: ${failedTests.join(', ')}`
+      )
+      const retryFile = path.join(
+        retryFolder,
+        `TestResults.retry-${attempt}.trx`
+      )
+      exitCode = await runDotnetTest([
+        ...baseArgs,
+        ...getTestFilterArgs(
+          buildTestFilter(failedTests),
+          path.join(retryFolder, `TestFilter.retry-${attempt}.runsettings`)
+        ),
+        '--logger',
+        `trx;LogFileName=${retryFile}`
+      ])
+      failedTests = readFailedTests(retryFile)
+    }
 
-    // Print outputs for debugging purposes.
-    core.info(stdout)
-    if (stderr) {
-      core.warning(stderr)
+    // Failures of quarantined tests alone do not fail the run.
+    const quarantined = new Set(quarantinedTests)
+    if (
+      exitCode !== 0 &&
+      failedTests.length > 0 &&
+      failedTests.every((test) => quarantined.has(test))
+    ) {
+      core.warning(
+        `Only quarantined tests failed, so the run is not failed: ${failedTests.join(', ')}`
+      )
+      exitCode = 0
     }
 
     // If the command did not complete successfully, capture and report the exit code.
@@ -116,3 +378,33 @@ export async function tests(
     throw testExecError
   }
 }
+
+/**
+ * Runs `dotnet test` and prints its output.
+ */
+async function runDotnetTest(args: string[]): Promise<number> {
+  core.info(`Executing command: dotnet ${args.join(' ')}`)
+  const { stdout, stderr, exitCode } = await exec.getExecOutput(
+    'dotnet',
+    args,
+    { ignoreReturnCode: true }
+  )
+
+  // Print outputs for debugging purposes.
+  core.info(stdout)
+  if (stderr) {
+    core.warning(stderr)
+  }
+  return exitCode
+}
+
+/**
+ * Returns the distinct failed tests of a TRX file, without theory arguments, or none if the file is missing.
+ */
+function readFailedTests(trxFile: string): string[] {
+  if (!fs.existsSync(trxFile)) return []
+  const failed = readTestResultsFile(trxFile)
+    .tests.filter((test) => test.outcome === 'failed')
+    .map((test) => test.name.replace(/\s*\(.*$/, ''))
+  return [...new Set(failed)].sort()
+}
@@ -0,0 +1,192 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as crypto from 'crypto'
+import { wait } from './wait.js'
+import { registerConnectionStrings } from './connectionStrings.js'
+
+const HEALTH_TIMEOUT_MS = 180000
+const HEALTH_POLL_INTERVAL_MS = 2000
+
+/**
+ * A throwaway database container started for a test run.
+ *
+ * @property provider - The database provider ('postgres', 'sqlserver' or 'mysql').
+ * @property containerId - The Docker container ID.
+ * @property connectionString - The connection string pointing at the container.
+ */
+export interface TestDatabase {
+  provider: string
+  containerId: string
+  connectionString: string
+}
+
+interface ProviderSettings {
+  image: string
+  port: number
+  env: (password: string) => string[]
+  healthCmd: string
+  connectionString: (port: string, password: string) => string
+}
+
+const PROVIDERS: Record<string, ProviderSettings> = {
+  postgres: {
+    image: 'postgres:16-alpine',
+    port: 5432,
+    env: (password) => [`POSTGRES_PASSWORD=${password}`, 'POSTGRES_DB=test'],
+    // Over TCP: the temporary server the image runs during initdb only listens on the socket.
+    healthCmd: 'pg_isready -h 127.0.0.1 -U postgres -d test',
+    connectionString: (port, password) =>
+      `Host=127.0.0.1;Port=${port};Database=test;Username=postgres;Password=${password}`
+  },
+  sqlserver: {
+    image: 'mcr.microsoft.com/mssql/server:2022-latest',
+    port: 1433,
+    env: (password) => ['ACCEPT_EULA=Y', `MSSQL_SA_PASSWORD=${password}`],
+    healthCmd:
+      '/opt/mssql-tools18/bin/sqlcmd -C -S localhost -U sa -P "$MSSQL_SA_PASSWORD" -Q "SELECT 1"',
+    connectionString: (port, password) =>
+      `Server=127.0.0.1,${port};Database=test;User Id=sa;Password=${password};TrustServerCertificate=True`
+  },
+  mysql: {
+    image: 'mysql:8.4',
+    port: 3306,
+    env: (password) => [
+      `MYSQL_ROOT_PASSWORD=${password}`,
+      'MYSQL_DATABASE=test'
+    ],
+    healthCmd: 'mysqladmin ping -h 127.0.0.1 -uroot -p"$MYSQL_ROOT_PASSWORD"',
+    connectionString: (port, password) =>
+      `Server=127.0.0.1;Port=${port};Database=test;User=root;Password=${password}`
+  }
+}
+
+/**
+ * Starts a throwaway database container and injects its connection string.
+ *
+ * @param {string} provider - The database provider: 'postgres', 'sqlserver' or 'mysql'.
+ * @param {string} connectionName - The connection string name, exported as `ConnectionStrings__<Name>`.
+ * @param {string} image - Optional image override (e.g., 'postgres:15'); defaults to the provider's image.
+ * @returns {Promise<TestDatabase>} The running container and its connection string.
+ * @throws {Error} If the provider is unsupported, the container fails to start or never becomes healthy.
+ *
+ * @example
+ * const database = await startTestDatabase('postgres', 'DefaultConnection', '')
+ * try {
+ *   // run migrations and tests
+ * } finally {
+ *   await stopTestDatabase(database)
+ * }
+ *
+ * @remarks
+ * - The container publishes its port on a random free host port, so parallel builds never collide.
+ * - A random password is generated and masked through `registerConnectionStrings`.
+ * - The container is removed again if it does not become healthy in time.
+ */
+export async function startTestDatabase(
+  provider: string,
+  connectionName: string,
+  image: string
+): Promise<TestDatabase> {
+  const settings = PROVIDERS[provider.toLowerCase()]
+  if (!settings) {
+    throw new Error(
+      `Unsupported test database provider: ${provider}. Use one of: ${Object.keys(PROVIDERS).join(', ')}.`
+    )
+  }
+
+  // Mixed character classes satisfy the SQL Server password policy.
+  const password = `${crypto.randomBytes(12).toString('hex')}Aa1!`
+  core.setSecret(password)
+
+  const containerName = `test-db-${process.env.GITHUB_RUN_ID || 'local'}-${crypto.randomBytes(4).toString('hex')}`
+  core.info(
+    `Starting ${provider} test database container ${containerName} from ${image || settings.image}...`
+  )
+
+  const { stdout } = await exec.getExecOutput('docker', [
+    'run',
+    '--detach',
+    '--name',
+    containerName,
+    '--publish',
+    `127.0.0.1::${settings.port}`,
+    ...settings.env(password).flatMap((variable) => ['--env', variable]),
+    '--health-cmd',
+    settings.healthCmd,
+    '--health-interval',
+    '2s',
+    '--health-retries',
+    '90',
+    image || settings.image
+  ])
+  const containerId = stdout.trim()
+
+  try {
+    await waitForHealthy(containerId)
+
+    const { stdout: portOutput } = await exec.getExecOutput('docker', [
+      'port',
+      containerId,
+      `${settings.port}/tcp`
+    ])
+    const hostPort = portOutput.trim().split('\n')[0].split(':').pop() || ''
+    const connectionString = settings.connectionString(hostPort, password)
+
+    registerConnectionStrings(`${connectionName}=${connectionString}`)
+    core.info(
+      `Test database is healthy on port ${hostPort} and exported as ConnectionStrings__${connectionName}.`
+    )
+    return { provider, containerId, connectionString }
+  } catch (error) {
+    await stopTestDatabase({ provider, containerId, connectionString: '' })
+    throw error
+  }
+}
+
+/**
+ * Polls the container health status until it reports `healthy`.
+ */
+async function waitForHealthy(containerId: string): Promise<void> {
+  const deadline = Date.now() + HEALTH_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    const { stdout } = await exec.getExecOutput(
+      'docker',
+      ['inspect', '--format', '{{.State.Health.Status}}', containerId],
+      { silent: true }
+    )
+    const status = stdout.trim()
+    if (status === 'healthy') {
+      return
+    }
+    if (status === 'unhealthy') {
+      break
+    }
+    await wait(HEALTH_POLL_INTERVAL_MS)
+  }
+  throw new Error(
+    `Test database container ${containerId} did not become healthy.`
+  )
+}
+
+/**
+ * Removes a test database container and its volumes.
+ *
+ * @param {TestDatabase} database - The database returned by `startTestDatabase`.
+ * @returns {Promise<void>} Resolves when the container is removed. Failures are logged, not thrown.
+ */
+export async function stopTestDatabase(database: TestDatabase): Promise<void> {
+  core.info(`Removing test database container ${database.containerId}...`)
+  try {
+    await exec.exec('docker', [
+      'rm',
+      '--force',
+      '--volumes',
+      database.containerId
+    ])
+    core.info('Test database container removed.')
+  } catch (error) {
+    core.warning(
+      `Failed to remove test database container ${database.containerId}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
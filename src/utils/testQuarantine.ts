@@ -0,0 +1,216 @@
+import * as fs from 'fs'
+import { TestRunResult } from './testResults.js'
+
+/**
+ * A test whose failures do not fail the step.
+ *
+ * @property test - The fully qualified test name (without theory arguments).
+ * @property owner - Who is responsible for fixing the test (e.g., '@alice' or a team).
+ * @property expires - The last day (`YYYY-MM-DD`) the quarantine applies.
+ * @property reason - Why the test is quarantined, e.g., a link to the tracking issue.
+ * @property line - The line of the entry in the quarantine file, for annotations.
+ */
+export interface QuarantineEntry {
+  test: string
+  owner: string
+  expires: string
+  reason: string
+  line: number
+}
+
+/**
+ * A problem found in the quarantine file.
+ *
+ * @property severity - `warning` for entries within the grace period after expiry, `error` otherwise.
+ * @property message - What is wrong and how to fix it.
+ * @property line - The line of the entry, or 1 for problems with the whole file.
+ */
+export interface QuarantineIssue {
+  severity: 'warning' | 'error'
+  message: string
+  line: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+function findLine(lines: string[], test: string, after: number): number {
+  const index = lines.findIndex(
+    (line, i) => i >= after && line.includes(JSON.stringify(test))
+  )
+  return index === -1 ? Math.max(after, 1) : index + 1
+}
+
+/**
+ * Parses and validates a quarantine file.
+ *
+ * @param {string} content - The file content: a JSON array of `{ test, owner, expires, reason? }` objects.
+ * @param {number} graceDays - How many days an expired entry still applies, with a warning, before it becomes an error.
+ * @param {Date} today - The current date (UTC).
+ * @returns {{ entries: QuarantineEntry[]; issues: QuarantineIssue[] }} The entries that apply today, and the problems found.
+ *
+ * @example
+ * parseQuarantine('[{ "test": "App.Tests.Sync.Retries", "owner": "@alice", "expires": "2024-06-30" }]', 7, new Date('2024-07-03'))
+ * // entries: [the Sync.Retries entry], issues: [{ severity: 'warning', message: 'Quarantine of App.Tests.Sync.Retries (owner @alice) expired on 2024-06-30 ...', line: 1 }]
+ *
+ * @remarks
+ * - Entries without `test`, `owner` or a valid `expires` date, and duplicate tests, are errors and
+ *   do not apply.
+ * - An entry applies through its `expires` day. For `graceDays` after that it still applies but
+ *   produces a warning; later it produces an error and no longer applies.
+ */
+export function parseQuarantine(
+  content: string,
+  graceDays: number,
+  today: Date = new Date()
+): { entries: QuarantineEntry[]; issues: QuarantineIssue[] } {
+  let items: unknown
+  try {
+    items = JSON.parse(content)
+  } catch (error: unknown) {
+    return {
+      entries: [],
+      issues: [
+        {
+          severity: 'error',
+          message: `The quarantine file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+          line: 1
+        }
+      ]
+    }
+  }
+  if (!Array.isArray(items)) {
+    return {
+      entries: [],
+      issues: [
+        {
+          severity: 'error',
+          message: 'The quarantine file must contain a JSON array of entries.',
+          line: 1
+        }
+      ]
+    }
+  }
+
+  const lines = content.split(/\r?\n/)
+  const todayTime = Date.UTC(
+    today.getUTCFullYear(),
+    today.getUTCMonth(),
+    today.getUTCDate()
+  )
+  const entries: QuarantineEntry[] = []
+  const issues: QuarantineIssue[] = []
+  const seen = new Set<string>()
+  let line = 0
+
+  items.forEach((item, index) => {
+    const { test, owner, expires, reason } = (item || {}) as Record<
+      string,
+      unknown
+    >
+    const name = typeof test === 'string' ? test.trim() : ''
+    line = name ? findLine(lines, name, line) : Math.max(line, 1)
+    const label = name
+      ? `Quarantine of ${name}`
+      : `Quarantine entry ${index + 1}`
+
+    const expiresTime =
+      typeof expires === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(expires)
+        ? Date.parse(`${expires}T00:00:00Z`)
+        : NaN
+    const missing = [
+      ...(name ? [] : ['test']),
+      ...(typeof owner === 'string' && owner.trim() ? [] : ['owner']),
+      ...(isNaN(expiresTime) ? ['expires (YYYY-MM-DD)'] : [])
+    ]
+    if (missing.length > 0) {
+      issues.push({
+        severity: 'error',
+        message: `${label} is missing ${missing.join(', ')}.`,
+        line
+      })
+      return
+    }
+    if (seen.has(name)) {
+      issues.push({
+        severity: 'error',
+        message: `${label} is listed more than once.`,
+        line
+      })
+      return
+    }
+    seen.add(name)
+
+    const daysExpired = Math.floor((todayTime - expiresTime) / DAY)
+    if (daysExpired > 0) {
+      const overdue = daysExpired > graceDays
+      issues.push({
+        severity: overdue ? 'error' : 'warning',
+        message: `${label} (owner ${owner}) expired on ${expires}. ${
+          overdue
+            ? 'Fix the test, or extend the quarantine with a new expiry date.'
+            : `It still applies for ${graceDays - daysExpired + 1} more day(s); fix the test or extend the quarantine.`
+        }`,
+        line
+      })
+      if (overdue) return
+    }
+
+    entries.push({
+      test: name,
+      owner: String(owner).trim(),
+      expires: String(expires),
+      reason: typeof reason === 'string' ? reason : '',
+      line
+    })
+  })
+
+  return { entries, issues }
+}
+
+/**
+ * Reads and validates a quarantine file.
+ *
+ * @param {string} filePath - Path to the quarantine file (e.g., '.github/test-quarantine.json').
+ * @param {number} graceDays - How many days an expired entry still applies, with a warning.
+ * @returns {{ entries: QuarantineEntry[]; issues: QuarantineIssue[] }} See `parseQuarantine`.
+ * @throws {Error} If the file does not exist.
+ */
+export function readQuarantineFile(
+  filePath: string,
+  graceDays: number
+): { entries: QuarantineEntry[]; issues: QuarantineIssue[] } {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Quarantine file does not exist: ${filePath}`)
+  }
+  return parseQuarantine(fs.readFileSync(filePath, 'utf8'), graceDays)
+}
+
+/**
+ * Marks the failed tests of a run that are quarantined.
+ *
+ * @param {TestRunResult} result - The test run.
+ * @param {string[]} quarantinedTests - The fully qualified names of the quarantined tests.
+ * @returns {TestRunResult} The result with those tests' outcome set to `quarantined` and the counts updated.
+ *
+ * @remarks
+ * Theory arguments are ignored when matching, so quarantining a test method covers all its cases.
+ */
+export function applyQuarantine(
+  result: TestRunResult,
+  quarantinedTests: string[]
+): TestRunResult {
+  const quarantined = new Set(quarantinedTests)
+  const tests = result.tests.map((test) =>
+    test.outcome === 'failed' &&
+    quarantined.has(test.name.replace(/\s*\(.*$/, ''))
+      ? { ...test, outcome: 'quarantined' as const }
+      : test
+  )
+  const count = tests.filter((test) => test.outcome === 'quarantined').length
+  return {
+    ...result,
+    failed: Math.max(result.failed - count, 0),
+    quarantined: result.quarantined + count,
+    tests
+  }
+}
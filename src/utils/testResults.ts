@@ -0,0 +1,494 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import { escapeHtml } from './summary.js'
+
+/**
+ * The outcome of a single test, normalized across result formats. A `flaky` test failed first and
+ * passed when it was retried (see `mergeRetryResults`); a `quarantined` test failed but is listed in
+ * the quarantine file (see `applyQuarantine`).
+ */
+export type TestOutcome =
+  | 'passed'
+  | 'failed'
+  | 'skipped'
+  | 'flaky'
+  | 'quarantined'
+
+/**
+ * The result of a single test.
+ *
+ * @property name - The fully qualified test name.
+ * @property outcome - Whether the test passed, failed, was skipped or only passed on a retry.
+ * @property duration - The test duration in milliseconds.
+ * @property message - The failure or skip message, if any.
+ * @property stackTrace - The stack trace of a failed test, if any.
+ */
+export interface TestCaseResult {
+  name: string
+  outcome: TestOutcome
+  duration: number
+  message: string
+  stackTrace: string
+}
+
+/**
+ * The parsed result of a test run.
+ *
+ * @property total - The number of tests.
+ * @property passed - The number of passed tests.
+ * @property failed - The number of failed tests (including errors, timeouts and aborted tests).
+ * @property skipped - The number of tests that did not run or were inconclusive.
+ * @property flaky - The number of tests that failed first and passed on a retry; not counted as failed.
+ * @property quarantined - The number of quarantined tests that failed; not counted as failed.
+ * @property duration - The run duration in milliseconds.
+ * @property tests - The individual test results, in file order.
+ */
+export interface TestRunResult {
+  total: number
+  passed: number
+  failed: number
+  skipped: number
+  flaky: number
+  quarantined: number
+  duration: number
+  tests: TestCaseResult[]
+}
+
+const FAILED_OUTCOMES = ['failed', 'error', 'timeout', 'aborted']
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2])
+  }
+  return attributes
+}
+
+function readElement(xml: string, name: string): string {
+  const match = xml.match(
+    new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)<\\/${name}>`)
+  )
+  return match ? decodeXml(match[1]).trim() : ''
+}
+
+/**
+ * Converts a .NET TimeSpan string (`[d.]hh:mm:ss[.fffffff]`) to milliseconds.
+ */
+function parseTimeSpan(value: string | undefined): number {
+  const match = value?.match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/)
+  if (!match) return 0
+  const [, days, hours, minutes, seconds] = match
+  return Math.round(
+    ((Number(days || 0) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 +
+      Number(seconds) * 1000
+  )
+}
+
+function toOutcome(outcome: string | undefined): TestOutcome {
+  const normalized = (outcome || '').toLowerCase()
+  if (normalized === 'passed') return 'passed'
+  return FAILED_OUTCOMES.includes(normalized) ? 'failed' : 'skipped'
+}
+
+function joinTestName(className: string, name: string): string {
+  return className && !name.startsWith(`${className}.`)
+    ? `${className}.${name}`
+    : name
+}
+
+/**
+ * Parses a Visual Studio test results (TRX) document.
+ *
+ * @param {string} xml - The content of a `.trx` file.
+ * @returns {TestRunResult} The counts, duration and individual test results of the run.
+ * @throws {Error} If the document is not a TRX test run.
+ *
+ * @example
+ * const result = parseTrx(fs.readFileSync('TestResults/TestResults.trx', 'utf8'))
+ * // { total: 12, passed: 11, failed: 1, skipped: 0, duration: 5321, tests: [...] }
+ *
+ * @remarks
+ * - Counts come from `ResultSummary/Counters` when present, so they match the `dotnet test` output;
+ *   otherwise they are derived from the individual results.
+ * - The duration is the time between `Times/@start` and `Times/@finish`, falling back to the sum of
+ *   the test durations.
+ * - Test names are prefixed with the `className` of their `TestDefinitions/UnitTest/TestMethod`,
+ *   joined through `testId`: MSTest and NUnit only write the method name to `testName`.
+ */
+export function parseTrx(xml: string): TestRunResult {
+  if (!/<TestRun\b/.test(xml)) {
+    throw new Error('The document is not a TRX test run.')
+  }
+
+  const classNames: Record<string, string> = {}
+  for (const match of xml.matchAll(
+    /<UnitTest\b([^>]*)>([\s\S]*?)<\/UnitTest>/g
+  )) {
+    const { id } = readAttributes(match[1])
+    const method = match[2].match(/<TestMethod\b([^>]*?)\/?>/)
+    if (id && method) {
+      // Older MSTest versions write an assembly-qualified class name.
+      classNames[id] = (readAttributes(method[1]).className || '')
+        .split(',')[0]
+        .trim()
+    }
+  }
+
+  const tests: TestCaseResult[] = []
+  for (const match of xml.matchAll(
+    /<UnitTestResult\b([^>]*?)(?:\/>|>([\s\S]*?)<\/UnitTestResult>)/g
+  )) {
+    const attributes = readAttributes(match[1])
+    const body = match[2] || ''
+    tests.push({
+      name: joinTestName(
+        classNames[attributes.testId] || '',
+        attributes.testName || ''
+      ),
+      outcome: toOutcome(attributes.outcome),
+      duration: parseTimeSpan(attributes.duration),
+      message: readElement(body, 'Message'),
+      stackTrace: readElement(body, 'StackTrace')
+    })
+  }
+
+  const count = (outcome: TestOutcome): number =>
+    tests.filter((test) => test.outcome === outcome).length
+  let total = tests.length
+  let passed = count('passed')
+  let failed = count('failed')
+
+  const counters = xml.match(/<Counters\b([^>]*)\/?>/)
+  if (counters) {
+    const values = readAttributes(counters[1])
+    const read = (name: string): number => Number(values[name]) || 0
+    total = read('total')
+    passed = read('passed')
+    failed = FAILED_OUTCOMES.reduce((sum, name) => sum + read(name), 0)
+  }
+
+  const times = xml.match(/<Times\b([^>]*)\/?>/)
+  const { start, finish } = times ? readAttributes(times[1]) : {}
+  const elapsed = Date.parse(finish) - Date.parse(start)
+
+  return {
+    total,
+    passed,
+    failed,
+    skipped: Math.max(total - passed - failed, 0),
+    flaky: 0,
+    quarantined: 0,
+    duration:
+      elapsed >= 0
+        ? elapsed
+        : tests.reduce((sum, test) => sum + test.duration, 0),
+    tests
+  }
+}
+
+/**
+ * Parses a JUnit XML document, such as the one written by the `junit` logger of `dotnet test`.
+ *
+ * @param {string} xml - The content of a JUnit XML file.
+ * @returns {TestRunResult} The counts, duration and individual test results of the run.
+ * @throws {Error} If the document has no `testsuites` or `testsuite` element.
+ *
+ * @remarks
+ * - A test with a `failure` or `error` element failed, a test with a `skipped` element was skipped.
+ *   The message comes from the `message` attribute, the stack trace from the element text.
+ * - Test names are prefixed with their `classname` unless they already include it.
+ * - The duration is the sum of the `testsuite` times, falling back to the sum of the test times.
+ */
+export function parseJUnit(xml: string): TestRunResult {
+  if (!/<testsuites?\b/.test(xml)) {
+    throw new Error('The document is not a JUnit test report.')
+  }
+
+  const tests: TestCaseResult[] = []
+  for (const match of xml.matchAll(
+    /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g
+  )) {
+    const attributes = readAttributes(match[1])
+    const body = match[2] || ''
+    const failure = body.match(
+      /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/
+    )
+    const skipped = body.match(
+      /<skipped\b([^>]*?)(?:\/>|>([\s\S]*?)<\/skipped>)/
+    )
+    const detail = failure
+      ? { attributes: failure[2], text: failure[3] }
+      : skipped
+        ? { attributes: skipped[1], text: skipped[2] }
+        : undefined
+    const text = detail?.text ? decodeXml(detail.text).trim() : ''
+    const message = detail ? readAttributes(detail.attributes).message : ''
+
+    tests.push({
+      name: joinTestName(attributes.classname || '', attributes.name || ''),
+      outcome: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+      duration: Math.round(Number(attributes.time || 0) * 1000),
+      message: message || (failure ? text.split(/\r?\n/)[0] : text),
+      stackTrace: failure ? text : ''
+    })
+  }
+
+  const suiteTimes = [...xml.matchAll(/<testsuite\b([^>]*)>/g)].map((suite) =>
+    Number(readAttributes(suite[1]).time)
+  )
+  const count = (outcome: TestOutcome): number =>
+    tests.filter((test) => test.outcome === outcome).length
+
+  return {
+    total: tests.length,
+    passed: count('passed'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    flaky: 0,
+    quarantined: 0,
+    duration:
+      suiteTimes.length > 0 && suiteTimes.every((time) => !isNaN(time))
+        ? Math.round(suiteTimes.reduce((sum, time) => sum + time, 0) * 1000)
+        : tests.reduce((sum, test) => sum + test.duration, 0),
+    tests
+  }
+}
+
+/**
+ * Reads and parses a TRX or JUnit test results file.
+ *
+ * @param {string} filePath - Path to the results file.
+ * @returns {TestRunResult} The parsed test run.
+ * @throws {Error} If the file cannot be read or is neither a TRX nor a JUnit document.
+ *
+ * @remarks
+ * The format is detected from the document, not from the file extension.
+ */
+export function readTestResultsFile(filePath: string): TestRunResult {
+  const xml = fs.readFileSync(filePath, 'utf8')
+  return /<TestRun\b/.test(xml) ? parseTrx(xml) : parseJUnit(xml)
+}
+
+/**
+ * Finds the first stack frame of a .NET stack trace that points into the repository.
+ *
+ * @param {string} stackTrace - The stack trace of a failed test.
+ * @param {string} repositoryRoot - The repository root. Defaults to `GITHUB_WORKSPACE`, or the current directory.
+ * @returns {{ file: string; line: number } | undefined} The file, relative to the repository root with forward slashes, and the line; or `undefined` if no frame points into the repository.
+ *
+ * @example
+ * findSourceLocation(
+ *   '   at Xunit.Assert.Equal(...)\n   at App.Tests.UserTests.Creates() in /home/runner/work/app/app/tests/UserTests.cs:line 42',
+ *   '/home/runner/work/app/app'
+ * )
+ * // { file: 'tests/UserTests.cs', line: 42 }
+ *
+ * @remarks
+ * Frames of the test framework and the runtime have no source location or point outside the
+ * repository, so the first matching frame is usually the assertion in the test itself.
+ */
+export function findSourceLocation(
+  stackTrace: string,
+  repositoryRoot: string = process.env.GITHUB_WORKSPACE || process.cwd()
+): { file: string; line: number } | undefined {
+  const root = path.resolve(repositoryRoot)
+  for (const match of stackTrace.matchAll(/\sin (.+?):line (\d+)/g)) {
+    const relative = path.relative(root, path.resolve(root, match[1].trim()))
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return {
+        file: relative.split(path.sep).join('/'),
+        line: Number(match[2])
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Marks the failed tests of a run that passed when they were retried as flaky.
+ *
+ * @param {TestRunResult} result - The result of the first attempt.
+ * @param {TestRunResult[]} retries - The results of the retry attempts, in order.
+ * @returns {TestRunResult} The result with those tests' outcome set to `flaky` and the counts updated.
+ *
+ * @example
+ * const result = mergeRetryResults(readTestResultsFile('TestResults/TestResults.trx'), [
+ *   readTestResultsFile('TestResults/retries/TestResults.retry-1.trx')
+ * ])
+ *
+ * @remarks
+ * Tests are matched by their full name, including theory arguments. A flaky test keeps the
+ * message and stack trace of its first failure.
+ */
+export function mergeRetryResults(
+  result: TestRunResult,
+  retries: TestRunResult[]
+): TestRunResult {
+  const passedOnRetry = new Set(
+    retries.flatMap((retry) =>
+      retry.tests
+        .filter((test) => test.outcome === 'passed')
+        .map((test) => test.name)
+    )
+  )
+  const tests = result.tests.map((test) =>
+    test.outcome === 'failed' && passedOnRetry.has(test.name)
+      ? { ...test, outcome: 'flaky' as const }
+      : test
+  )
+  const flaky = tests.filter((test) => test.outcome === 'flaky').length
+  return {
+    ...result,
+    failed: Math.max(result.failed - flaky, 0),
+    flaky: result.flaky + flaky,
+    tests
+  }
+}
+
+/**
+ * Emits an error annotation for each failed test and a warning annotation for each flaky or
+ * quarantined test.
+ *
+ * @param {TestRunResult} result - The parsed test run.
+ * @returns {void}
+ *
+ * @remarks
+ * Each annotation is placed on the first stack frame inside the repository (see
+ * `findSourceLocation`), so it appears inline on the pull request diff. Failures without such a
+ * frame are still reported, without a location.
+ */
+export function annotateFailedTests(result: TestRunResult): void {
+  const warnings: Partial<Record<TestOutcome, string>> = {
+    flaky: 'Passed on retry after failing',
+    quarantined: 'Failed while quarantined'
+  }
+  for (const test of result.tests) {
+    if (test.outcome !== 'failed' && !warnings[test.outcome]) continue
+    const location = findSourceLocation(test.stackTrace)
+    const properties = {
+      title: `${test.outcome.charAt(0).toUpperCase()}${test.outcome.slice(1)} test: ${test.name}`,
+      ...(location ? { file: location.file, startLine: location.line } : {})
+    }
+    if (test.outcome === 'failed') {
+      core.error(test.message || 'Test failed.', properties)
+    } else {
+      core.warning(
+        `${warnings[test.outcome]}: ${test.message || 'Test failed.'}`,
+        properties
+      )
+    }
+  }
+}
+
+/**
+ * Sets the test count outputs of the action.
+ *
+ * @param {TestRunResult} result - The parsed test run.
+ * @returns {void}
+ *
+ * @remarks
+ * Sets `tests_total`, `tests_passed`, `tests_failed`, `tests_skipped`, `tests_flaky`,
+ * `tests_quarantined`, `tests_duration` (milliseconds) and `flaky_tests`, a JSON array of the flaky
+ * test names.
+ */
+export function setTestResultOutputs(result: TestRunResult): void {
+  core.setOutput('tests_total', result.total)
+  core.setOutput('tests_passed', result.passed)
+  core.setOutput('tests_failed', result.failed)
+  core.setOutput('tests_skipped', result.skipped)
+  core.setOutput('tests_flaky', result.flaky)
+  core.setOutput('tests_quarantined', result.quarantined)
+  core.setOutput('tests_duration', result.duration)
+  core.setOutput(
+    'flaky_tests',
+    JSON.stringify(
+      result.tests
+        .filter((test) => test.outcome === 'flaky')
+        .map((test) => test.name)
+    )
+  )
+}
+
+function formatDuration(milliseconds: number): string {
+  return milliseconds < 1000
+    ? `${milliseconds} ms`
+    : `${(milliseconds / 1000).toFixed(2)} s`
+}
+
+/**
+ * Writes a test run to the GitHub job summary.
+ *
+ * @param {string} title - The summary heading (e.g., 'Test results').
+ * @param {TestRunResult} result - The parsed test run.
+ * @returns {Promise<void>} Resolves when the summary has been written.
+ *
+ * @remarks
+ * The counts are followed by a table of the failed, quarantined, flaky and skipped tests with their messages
+ * (for flaky tests, the message of the first failure); passed tests are only counted, to keep the summary readable for large suites.
+ */
+export async function writeTestResultSummary(
+  title: string,
+  result: TestRunResult
+): Promise<void> {
+  core.summary.addHeading(title, 2)
+  core.summary.addTable([
+    [
+      { data: 'Total', header: true },
+      { data: 'Passed', header: true },
+      { data: 'Failed', header: true },
+      { data: 'Skipped', header: true },
+      { data: 'Flaky', header: true },
+      { data: 'Quarantined', header: true },
+      { data: 'Duration', header: true }
+    ],
+    [
+      `${result.total}`,
+      `✅ ${result.passed}`,
+      `❌ ${result.failed}`,
+      `⏭️ ${result.skipped}`,
+      `⚠️ ${result.flaky}`,
+      `🔒 ${result.quarantined}`,
+      formatDuration(result.duration)
+    ]
+  ])
+
+  const notPassed = [
+    ...result.tests.filter((test) => test.outcome === 'failed'),
+    ...result.tests.filter((test) => test.outcome === 'quarantined'),
+    ...result.tests.filter((test) => test.outcome === 'flaky'),
+    ...result.tests.filter((test) => test.outcome === 'skipped')
+  ]
+  if (notPassed.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'Test', header: true },
+        { data: 'Outcome', header: true },
+        { data: 'Duration', header: true },
+        { data: 'Message', header: true }
+      ],
+      ...notPassed.map((test) => [
+        `<code>${escapeHtml(test.name)}</code>`,
+        test.outcome,
+        formatDuration(test.duration),
+        escapeHtml(test.message).replace(/\r?\n/g, '<br>')
+      ])
+    ])
+  }
+
+  await core.summary.write()
+}
@@ -0,0 +1,225 @@
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as fs from 'fs'
+import * as path from 'path'
+import { readTestResultsFile } from './testResults.js'
+
+/**
+ * The tests assigned to one shard.
+ *
+ * @property tests - The test names, sorted.
+ * @property duration - The expected duration in milliseconds (an estimate when durations are unknown).
+ */
+export interface TestShard {
+  tests: string[]
+  duration: number
+}
+
+/**
+ * Parses the output of `dotnet test --list-tests`.
+ *
+ * @param {string} output - The command output; one block per test project.
+ * @returns {string[]} The distinct test names, sorted. Theory and data-row arguments are removed.
+ *
+ * @example
+ * parseTestList('The following Tests are available:\n    App.Tests.UserTests.Creates(name: "a")\n')
+ * // ['App.Tests.UserTests.Creates']
+ */
+export function parseTestList(output: string): string[] {
+  const tests = new Set<string>()
+  let listing = false
+  for (const line of output.split(/\r?\n/)) {
+    if (/The following Tests are available:/i.test(line)) {
+      listing = true
+    } else if (listing && /^\s{2,}\S/.test(line)) {
+      tests.add(line.trim().replace(/\s*\(.*$/, ''))
+    } else if (listing) {
+      listing = false
+    }
+  }
+  return [...tests].sort()
+}
+
+/**
+ * Lists the tests of a test project or solution.
+ *
+ * @param {string} testFolder - The folder passed to `dotnet test`.
+ * @returns {Promise<string[]>} The distinct test names, sorted (see `parseTestList`).
+ * @throws {Error} If `dotnet test --list-tests` fails.
+ */
+export async function listTests(testFolder: string): Promise<string[]> {
+  core.info(`Listing tests in ${testFolder}...`)
+  const { stdout } = await exec.getExecOutput(
+    'dotnet',
+    ['test', testFolder, '--list-tests'],
+    { silent: true }
+  )
+  return parseTestList(stdout)
+}
+
+/**
+ * Reads the average duration of each test from earlier TRX or JUnit results.
+ *
+ * @param {string} historyFolder - A folder with result files of earlier runs (searched recursively).
+ * @returns {Record<string, number>} The average duration in milliseconds per test name.
+ *
+ * @remarks
+ * Files that cannot be parsed are skipped with a warning. Test names are reduced like in
+ * `parseTestList`, so the durations of theory cases add up under their test method.
+ */
+export function readTestDurations(
+  historyFolder: string
+): Record<string, number> {
+  const totals: Record<string, { duration: number; runs: Set<string> }> = {}
+  const pending = fs.existsSync(historyFolder) ? [historyFolder] : []
+  while (pending.length > 0) {
+    const dir = pending.pop()!
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        pending.push(entryPath)
+        continue
+      }
+      if (!/\.(trx|xml)$/i.test(entry.name)) continue
+      try {
+        for (const test of readTestResultsFile(entryPath).tests) {
+          const name = test.name.replace(/\s*\(.*$/, '')
+          totals[name] ||= { duration: 0, runs: new Set() }
+          totals[name].duration += test.duration
+          totals[name].runs.add(entryPath)
+        }
+      } catch (error: unknown) {
+        core.warning(
+          `Skipping ${entryPath}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([name, { duration, runs }]) => [
+      name,
+      duration / runs.size
+    ])
+  )
+}
+
+/**
+ * Keys test durations by the names `dotnet test --list-tests` reports.
+ *
+ * @param {string[]} tests - The listed test names (see `parseTestList`).
+ * @param {Record<string, number>} durations - The durations per test from earlier results (see `readTestDurations`).
+ * @returns {Record<string, number>} The duration in milliseconds per listed test whose duration is known.
+ *
+ * @example
+ * matchTestDurations(['Creates'], { 'App.UserTests.Creates': 300, 'App.OrderTests.Creates': 200 })
+ * // { Creates: 500 }
+ *
+ * @remarks
+ * Result files name every test by its class, but MSTest and NUnit list method names only. A listed
+ * method name gets the summed duration of every class's method of that name, since its `Name=`
+ * filter (see `buildTestFilter`) runs all of them in the same shard.
+ */
+export function matchTestDurations(
+  tests: string[],
+  durations: Record<string, number>
+): Record<string, number> {
+  const matched: Record<string, number> = {}
+  for (const test of tests) {
+    if (durations[test] !== undefined) {
+      matched[test] = durations[test]
+    } else if (!test.includes('.')) {
+      const methods = Object.keys(durations).filter((name) =>
+        name.endsWith(`.${test}`)
+      )
+      if (methods.length > 0) {
+        matched[test] = methods.reduce((sum, name) => sum + durations[name], 0)
+      }
+    }
+  }
+  return matched
+}
+
+/**
+ * Splits tests into shards of similar duration.
+ *
+ * @param {string[]} tests - The test names.
+ * @param {number} shardCount - The number of shards.
+ * @param {Record<string, number>} durations - Known durations in milliseconds per test (see `readTestDurations`).
+ * @returns {TestShard[]} `shardCount` shards; every test is in exactly one of them.
+ *
+ * @example
+ * splitTests(['A.One', 'A.Two', 'B.Three'], 2, { 'A.One': 8000, 'A.Two': 2000 })
+ * // [{ tests: ['A.One'], duration: 8000 }, { tests: ['A.Two', 'B.Three'], duration: 7000 }]
+ *
+ * @remarks
+ * - Tests are assigned longest first to the shard with the smallest total, ties going to the lower
+ *   shard. Tests without a known duration count as the average known duration (or 1 ms when none is
+ *   known, which splits them evenly by name).
+ * - The result only depends on the inputs, so every matrix job computes the same split.
+ */
+export function splitTests(
+  tests: string[],
+  shardCount: number,
+  durations: Record<string, number> = {}
+): TestShard[] {
+  const known = tests
+    .map((test) => durations[test])
+    .filter((duration) => duration !== undefined)
+  const fallback =
+    known.length > 0
+      ? known.reduce((sum, duration) => sum + duration, 0) / known.length
+      : 1
+  const weighted = [...new Set(tests)]
+    .map((test) => ({ test, duration: durations[test] ?? fallback }))
+    .sort((a, b) => b.duration - a.duration || a.test.localeCompare(b.test))
+
+  const shards: TestShard[] = Array.from({ length: shardCount }, () => ({
+    tests: [],
+    duration: 0
+  }))
+  for (const { test, duration } of weighted) {
+    const shard = shards.reduce((smallest, candidate) =>
+      candidate.duration < smallest.duration ? candidate : smallest
+    )
+    shard.tests.push(test)
+    shard.duration += duration
+  }
+  for (const shard of shards) {
+    shard.tests.sort()
+    shard.duration = Math.round(shard.duration)
+  }
+  return shards
+}
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\()&|=!~]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Builds a `dotnet test --filter` expression that selects exactly the given tests.
+ *
+ * @param {string[]} tests - The test names, as listed by `dotnet test --list-tests`.
+ * @returns {string} The filter expression.
+ *
+ * @example
+ * buildTestFilter(['App.Tests.UserTests.Creates', 'Deletes'])
+ * // 'FullyQualifiedName=App.Tests.UserTests.Creates|Name=Deletes'
+ *
+ * @remarks
+ * xUnit lists fully qualified names, which are matched on `FullyQualifiedName`. MSTest and NUnit
+ * list method names only, which are matched on `Name`: `parseTestList` lists a method name once even
+ * when several classes declare it, so it lands in exactly one shard, which runs all of them.
+ * Filter operators in names are escaped.
+ *
+ * The expression grows with the number of tests; pass it with `getTestFilterArgs`, which moves
+ * filters that are too long for the command line into a runsettings file.
+ */
+export function buildTestFilter(tests: string[]): string {
+  return tests
+    .map((test) =>
+      test.includes('.')
+        ? `FullyQualifiedName=${escapeFilterValue(test)}`
+        : `Name=${escapeFilterValue(test)}`
+    )
+    .join('|')
+}
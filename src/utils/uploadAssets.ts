@@ -50,9 +50,15 @@ export async function uploadReleaseAssets(
   const octokit = getOctokit(token)
   for (const asset of assets) {
     core.info(`Uploading asset: ${asset.name} from ${asset.path} ...`)
-    const fileContent = fs.readFileSync(asset.path).toString()
+    // Keep the raw bytes: decoding to a string corrupts zips and executables.
+    const fileContent = fs.readFileSync(asset.path)
     const stat = fs.statSync(asset.path)
-    await octokit.rest.repos.uploadReleaseAsset({
+    // The typed uploadReleaseAsset route only accepts a string body, so the
+    // same endpoint is called directly with the Buffer.
+    await octokit.request({
+      method: 'POST',
+      url: '/repos/{owner}/{repo}/releases/{release_id}/assets{?name}',
+      baseUrl: 'https://uploads.github.com',
       owner,
       repo,
       release_id: releaseId,
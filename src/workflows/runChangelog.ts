@@ -15,6 +15,13 @@ import * as fs from 'fs/promises'
 import * as path from 'path'
 import { getOctokit } from '@actions/github'
 import { publishDotnetProject } from '../utils/dotnet.js'
+import { buildMigrationBundles } from './runMigrationsBundle.js'
+import {
+  generateMigrationRangeScript,
+  parseMigrationContexts
+} from '../utils/migrations.js'
+import { readMigrationsFolder } from '../utils/migrationLint.js'
+import { getPreviousReleaseTag, listFilesAtRef } from '../utils/git.js'
 
 /**
  * Retrieves an existing release for the given version.
@@ -33,6 +40,70 @@ async function getExistingRelease(
   return releases.find((release) => release.tag_name === tag)
 }
 
+/**
+ * Generates a downgrade script per DbContext, from the newest migration back to the migration that
+ * was current at the previous release tag ('0' when there is no previous release).
+ */
+async function buildDowngradeScripts(
+  version: string
+): Promise<{ name: string; path: string }[]> {
+  const inputs = getInputs()
+  const previousTag = await getPreviousReleaseTag(version)
+  core.info(
+    previousTag
+      ? `Previous release tag: ${previousTag}`
+      : 'No previous release tag found; downgrade scripts revert to an empty database.'
+  )
+
+  // EF names the designer file of a migration after its ID.
+  const idsAtPreviousTag = new Set(
+    previousTag
+      ? (await listFilesAtRef(previousTag, inputs.migrationsFolder))
+          .map((file) => path.basename(file))
+          .filter((file) => file.endsWith('.Designer.cs'))
+          .map((file) => file.slice(0, -'.Designer.cs'.length))
+      : []
+  )
+  const { migrations } = readMigrationsFolder(inputs.migrationsFolder)
+  const scripts: { name: string; path: string }[] = []
+
+  for (const context of parseMigrationContexts(inputs.migrationsContexts)) {
+    const contextType = context.split('.').pop()
+    const contextMigrations = migrations.filter(
+      (migration) => !contextType || migration.context === contextType
+    )
+    if (contextMigrations.length === 0) continue
+
+    const latest = contextMigrations[contextMigrations.length - 1].id
+    const previous =
+      [...contextMigrations]
+        .reverse()
+        .find((migration) => idsAtPreviousTag.has(migration.id))?.id || '0'
+    if (latest === previous) {
+      core.info(
+        `No new migrations${context ? ` for ${context}` : ''} since ${previousTag}; no downgrade script needed.`
+      )
+      continue
+    }
+
+    const name = `downgrade-${version}${context ? `-${context}` : ''}.sql`
+    const scriptPath = await generateMigrationRangeScript(
+      inputs.envName,
+      inputs.homeDirectory,
+      inputs.migrationsFolder,
+      inputs.dotnetRoot,
+      inputs.useGlobalDotnetEf,
+      latest,
+      previous,
+      path.join('./publish/downgrade', name),
+      context
+    )
+    scripts.push({ name, path: scriptPath })
+  }
+
+  return scripts
+}
+
 export async function runChangelog(): Promise<void> {
   try {
     const inputs = getInputs()
@@ -174,6 +245,18 @@ export async function runChangelog(): Promise<void> {
       }
     }
 
+    // Build EF Core migration bundles so they ship next to the binaries.
+    if (inputs.includeMigrationBundles) {
+      core.info('Building migration bundle assets...')
+      assets.push(...(await buildMigrationBundles()))
+    }
+
+    // Pre-built rollback scripts, so operations never reconstruct one during an incident.
+    if (inputs.includeDowngradeScript) {
+      core.info('Generating downgrade script assets...')
+      assets.push(...(await buildDowngradeScripts(version)))
+    }
+
     // Create a text file asset for GHCR details if requested.
     if (inputs.includeGhcrPackage) {
       core.info('Creating GHCR details asset...')
@@ -7,7 +7,7 @@ import {
 } from '../utils/git.js'
 import { getInputs } from '../utils/inputs.js'
 
-export async function runDockerBuild(): Promise<void> {
+export async function runDockerBuild(): Promise<boolean> {
   try {
     const inputs = getInputs()
 
@@ -23,7 +23,7 @@ export async function runDockerBuild(): Promise<void> {
           'No version bump detected in commit message. Skipping release.'
         )
         core.setOutput('skip', 'true')
-        return
+        return true
       }
     } else {
       const csprojPath = await findCsprojFile(
@@ -41,18 +41,20 @@ export async function runDockerBuild(): Promise<void> {
       if (!version) {
         core.info('No version found in the .csproj file. Skipping release.')
         core.setOutput('skip', 'true')
-        return
+        return true
       }
     }
 
     core.info(`Extracted version: ${version}`)
     core.setOutput('version', version)
     core.setOutput('skip', 'false')
+    return true
   } catch (error) {
     core.error('An error occurred during Docker build.')
     if (error instanceof Error) {
       core.error(`Error: ${error.message}`)
       core.setFailed(error.message)
     }
+    return false
   }
 }
@@ -24,7 +24,7 @@ export async function checkGhcrImageExists(
   }
 }
 
-export async function runDockerPush(): Promise<void> {
+export async function runDockerPush(): Promise<boolean> {
   try {
     const inputs = getInputs()
 
@@ -43,7 +43,7 @@ export async function runDockerPush(): Promise<void> {
     if (!newVersion) {
       core.error('New version is required.')
       core.setFailed('New version is required.')
-      return
+      return false
     }
 
     // Process Docker Compose builds if provided.
@@ -123,11 +123,13 @@ export async function runDockerPush(): Promise<void> {
     }
 
     core.info('Docker push steps completed successfully.')
+    return true
   } catch (error) {
     core.error('An error occurred during Docker push.')
     if (error instanceof Error) {
       core.error(`Error: ${error.message}`)
       core.setFailed(error.message)
     }
+    return false
   }
 }
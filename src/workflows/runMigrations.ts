@@ -1,44 +1,340 @@
 import * as core from '@actions/core'
+import * as path from 'path'
 import { getInputs } from '../utils/inputs.js'
 import {
   processMigrations,
-  getLastNonPendingMigration
+  listMigrations,
+  getBaselineMigration,
+  parseMigrationContexts,
+  generateMigrationScript,
+  rollbackMigrations
 } from '../utils/migrations.js'
+import { assertDestructiveMigrationsApproved } from '../utils/migrationGuard.js'
+import { getHeadCommitMessage } from '../utils/git.js'
+import { uploadFileArtifact } from '../utils/artifact.js'
+import { seedDatabase } from '../utils/seed.js'
+import {
+  SchemaDiff,
+  getSchemaDiff,
+  writeSchemaDiffSummary
+} from '../utils/schemaDiff.js'
+import {
+  createMigrationBackup,
+  restoreMigrationBackup
+} from '../utils/backup.js'
+import {
+  planMigrations,
+  planMigrationRunSteps,
+  writeMigrationPlanSummary
+} from '../utils/migrationPlan.js'
+
+/**
+ * The restore point recorded by `runMigrations`.
+ *
+ * @property baselines - The baseline migration of every DbContext that had pending migrations.
+ * @property backupPath - The database backup taken before migrating, or an empty string.
+ */
+export interface MigrationRestorePoint {
+  baselines: Record<string, string>
+  backupPath: string
+}
+
+/**
+ * Applies pending migrations for every configured DbContext.
+ *
+ * @returns {Promise<MigrationRestorePoint | undefined>} The restore point, so a later failing step can
+ * roll back with `rollbackToRestorePoint`; `undefined` in plan mode or when the step failed.
+ */
+export async function runMigrations(): Promise<
+  MigrationRestorePoint | undefined
+> {
+  const restorePoint: MigrationRestorePoint = { baselines: {}, backupPath: '' }
+  let rollbackOnFailure = false
 
-export async function runMigrations(): Promise<void> {
   try {
     const inputs = getInputs()
+    rollbackOnFailure = inputs.onFailedRollbackMigrations
+    const contexts = parseMigrationContexts(inputs.migrationsContexts)
+    const lastMigrations: Record<string, string> = {}
+    const schemaDiffs: SchemaDiff[] = []
 
-    const baselineMigration = await getLastNonPendingMigration(
-      inputs.envName,
-      inputs.homeDirectory,
-      inputs.migrationsFolder,
-      inputs.dotnetRoot,
-      inputs.useGlobalDotnetEf
-    )
-    core.info(
-      `Baseline migration before new migrations: ${baselineMigration || 'None'}`
-    )
+    // Plan mode only reports what would happen; the database is left untouched.
+    if (inputs.migrationsPlan) {
+      const plans = []
+      for (const context of contexts) {
+        plans.push(
+          await planMigrations(
+            inputs.envName,
+            inputs.homeDirectory,
+            inputs.migrationsFolder,
+            inputs.dotnetRoot,
+            inputs.useGlobalDotnetEf,
+            context,
+            inputs.generateMigrationScript
+              ? getMigrationScriptPath(inputs.migrationScriptFolder, context)
+              : ''
+          )
+        )
+      }
+      await writeMigrationPlanSummary(
+        plans,
+        planMigrationRunSteps(
+          plans,
+          inputs.backupBeforeMigrations
+            ? {
+                provider: inputs.databaseProvider,
+                connectionName: inputs.databaseConnectionName,
+                folder: inputs.backupFolder,
+                upload: inputs.uploadBackup
+              }
+            : undefined,
+          inputs.seedCommand,
+          inputs.seedScriptsFolder
+        )
+      )
+      core.info('Migration plan written to the job summary.')
+      return undefined
+    }
 
-    const newMigration = await processMigrations(
-      inputs.envName,
-      inputs.homeDirectory,
-      inputs.migrationsFolder,
-      inputs.dotnetRoot,
-      inputs.useGlobalDotnetEf
-    )
-    core.info(
-      newMigration
-        ? `New migration applied: ${newMigration}`
-        : 'No new migrations were applied.'
+    // Record baselines and check every context before any of them is changed.
+    const baselineMigrations: Record<string, string> = {}
+    const commitMessage = await getHeadCommitMessage()
+    const hasPending: Record<string, boolean> = {}
+    for (const context of contexts) {
+      const label = context ? ` for ${context}` : ''
+
+      const migrations = await listMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+      baselineMigrations[context] = getBaselineMigration(migrations)
+      core.info(
+        `Baseline migration${label} before new migrations: ${baselineMigrations[context] || 'None'}`
+      )
+
+      const pending = migrations.filter((migration) => !migration.applied)
+      hasPending[context] = pending.length > 0
+      assertDestructiveMigrationsApproved(
+        inputs.migrationsFolder,
+        pending,
+        inputs.allowDestructiveMigrations,
+        commitMessage
+      )
+    }
+
+    if (
+      inputs.backupBeforeMigrations &&
+      Object.values(hasPending).some((pending) => pending)
+    ) {
+      restorePoint.backupPath = await createMigrationBackup(
+        inputs.databaseProvider,
+        inputs.databaseConnectionName,
+        inputs.backupFolder,
+        inputs.uploadBackup
+      )
+      core.setOutput('backupPath', restorePoint.backupPath)
+    }
+
+    for (const context of contexts) {
+      const label = context ? ` for ${context}` : ''
+      const baselineMigration = baselineMigrations[context]
+
+      if (inputs.generateMigrationScript) {
+        const scriptPath = await generateMigrationScript(
+          inputs.envName,
+          inputs.homeDirectory,
+          inputs.migrationsFolder,
+          inputs.dotnetRoot,
+          inputs.useGlobalDotnetEf,
+          baselineMigration,
+          getMigrationScriptPath(inputs.migrationScriptFolder, context),
+          context
+        )
+        await uploadFileArtifact(
+          context ? `migration-script-${context}` : 'migration-script',
+          scriptPath,
+          path.dirname(scriptPath)
+        )
+      }
+
+      // Recorded before updating, so a partially applied context is rolled back too.
+      if (hasPending[context]) {
+        restorePoint.baselines[context] = baselineMigration
+      }
+      const newMigration = await processMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+      core.info(
+        newMigration
+          ? `New migration applied${label}: ${newMigration}`
+          : `No new migrations were applied${label}.`
+      )
+      lastMigrations[context] = newMigration || baselineMigration
+
+      // The report is informational; failing to build it does not fail the migration.
+      if (inputs.schemaDiffReport && newMigration) {
+        try {
+          schemaDiffs.push(
+            await getSchemaDiff(
+              inputs.envName,
+              inputs.homeDirectory,
+              inputs.migrationsFolder,
+              inputs.dotnetRoot,
+              inputs.useGlobalDotnetEf,
+              baselineMigration,
+              newMigration,
+              context
+            )
+          )
+        } catch (diffError) {
+          core.warning(
+            `Could not build the schema diff${label}: ${diffError instanceof Error ? diffError.message : String(diffError)}`
+          )
+        }
+      }
+    }
+
+    if (schemaDiffs.length > 0) {
+      await writeSchemaDiffSummary('Schema changes', schemaDiffs)
+    }
+
+    if (inputs.seedCommand || inputs.seedScriptsFolder) {
+      await seedDatabase(
+        inputs.seedCommand,
+        inputs.seedScriptsFolder,
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.dotnetRoot,
+        inputs.databaseProvider,
+        inputs.databaseConnectionName
+      )
+    }
+
+    // A single context keeps the plain migration ID; several are reported as a JSON map.
+    core.setOutput(
+      'lastMigration',
+      contexts.length === 1
+        ? lastMigrations[contexts[0]]
+        : JSON.stringify(lastMigrations)
     )
 
     core.info('GitHub Action completed successfully.')
+    return restorePoint
   } catch (error) {
     core.error('An error occurred during execution.')
     if (error instanceof Error) {
       core.error(`Error: ${error.message}`)
       core.setFailed(error.message)
     }
+    if (rollbackOnFailure) {
+      await rollbackToRestorePoint(restorePoint)
+    }
+    return undefined
+  }
+}
+
+/**
+ * Returns where the idempotent migration script of a DbContext is written.
+ */
+function getMigrationScriptPath(scriptFolder: string, context: string): string {
+  return path.join(scriptFolder, `${context || 'migrations'}.sql`)
+}
+
+/**
+ * Rolls every migrated DbContext back to its baseline, restoring the backup if that fails.
+ *
+ * @param {MigrationRestorePoint} restorePoint - The restore point returned by `runMigrations`.
+ * @returns {Promise<void>} Resolves when the rollback attempt is complete. Failures are reported, not thrown.
+ *
+ * @remarks
+ * - Each DbContext is rolled back on its own; one failure does not block the others.
+ * - The migration every context returned to is reported as a warning annotation and as the
+ *   `rolledBackMigration` output (a JSON map with several contexts, like `lastMigration`).
+ * - If any rollback fails and a backup was taken, the database is restored from the backup.
+ */
+export async function rollbackToRestorePoint(
+  restorePoint: MigrationRestorePoint
+): Promise<void> {
+  const contexts = Object.keys(restorePoint.baselines)
+  if (contexts.length === 0) {
+    core.info('No migrations were applied; nothing to roll back.')
+    return
+  }
+
+  const inputs = getInputs()
+  const rolledBack: Record<string, string> = {}
+  let rollbackFailed = false
+  const setRolledBackOutput = () =>
+    core.setOutput(
+      'rolledBackMigration',
+      contexts.length === 1
+        ? (rolledBack[contexts[0]] ?? '')
+        : JSON.stringify(rolledBack)
+    )
+
+  for (const context of contexts) {
+    const label = context ? ` ${context}` : ''
+    const baselineMigration = restorePoint.baselines[context]
+    try {
+      core.info(
+        `Rolling back migrations${label} to baseline: ${baselineMigration}...`
+      )
+      await rollbackMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        baselineMigration,
+        context
+      )
+      rolledBack[context] = baselineMigration
+      core.warning(
+        `Rolled back${label} to migration ${baselineMigration === '0' ? '0 (empty database)' : baselineMigration}.`,
+        { title: 'Migrations rolled back' }
+      )
+    } catch (rollbackError) {
+      core.error(`Rollback${label} to ${baselineMigration} failed:`)
+      if (rollbackError instanceof Error) {
+        core.error(rollbackError.message)
+      }
+      rollbackFailed = true
+    }
   }
+
+  if (rollbackFailed && restorePoint.backupPath) {
+    try {
+      await restoreMigrationBackup(
+        inputs.databaseProvider,
+        inputs.databaseConnectionName,
+        restorePoint.backupPath
+      )
+      core.warning(
+        `Restored the database from ${restorePoint.backupPath} taken before migrating.`,
+        { title: 'Migrations rolled back' }
+      )
+      // The backup returns every context to the baseline it had before migrating.
+      Object.assign(rolledBack, restorePoint.baselines)
+      setRolledBackOutput()
+      return
+    } catch (restoreError) {
+      core.error(
+        `Restoring the database from ${restorePoint.backupPath} failed; it may be left partially migrated.`
+      )
+      if (restoreError instanceof Error) {
+        core.error(restoreError.message)
+      }
+    }
+  }
+
+  setRolledBackOutput()
 }
@@ -0,0 +1,79 @@
+import * as core from '@actions/core'
+import * as path from 'path'
+import { getInputs } from '../utils/inputs.js'
+import { getPublishTargets } from '../utils/dotnet.js'
+import {
+  buildMigrationBundle,
+  parseMigrationContexts
+} from '../utils/migrations.js'
+
+// The bundles built in this run, so the release step does not build them twice.
+let builtBundles: { name: string; path: string }[] | undefined
+
+/**
+ * Builds a migration bundle for every publish target and DbContext.
+ *
+ * @returns The bundles as release assets, named e.g. `efbundle-linux-x64` or
+ * `efbundle-AppDbContext-win-x64.exe`. Bundles already built earlier in the
+ * run are returned as they are.
+ */
+export async function buildMigrationBundles(): Promise<
+  { name: string; path: string }[]
+> {
+  if (builtBundles) {
+    core.info(
+      `Reusing ${builtBundles.length} migration bundle(s) built earlier.`
+    )
+    return builtBundles
+  }
+
+  const inputs = getInputs()
+  const targets = getPublishTargets(
+    inputs.publishLinux,
+    inputs.publishWindows,
+    inputs.publishMac
+  )
+  const bundles: { name: string; path: string }[] = []
+
+  for (const target of targets) {
+    for (const context of parseMigrationContexts(inputs.migrationsContexts)) {
+      const extension = target.runtime.startsWith('win') ? '.exe' : ''
+      const name = `efbundle-${context ? `${context}-` : ''}${target.runtime}${extension}`
+      const bundlePath = await buildMigrationBundle(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        target.runtime,
+        path.join('./publish/efbundle', name),
+        context
+      )
+      bundles.push({ name, path: bundlePath })
+    }
+  }
+
+  builtBundles = bundles
+  return bundles
+}
+
+export async function runMigrationsBundle(): Promise<boolean> {
+  try {
+    const bundles = await buildMigrationBundles()
+    if (bundles.length === 0) {
+      core.warning(
+        'No publish targets selected; no migration bundles were built.'
+      )
+      return true
+    }
+    core.info(`Built ${bundles.length} migration bundle(s).`)
+    return true
+  } catch (error) {
+    core.error('An error occurred while building migration bundles.')
+    if (error instanceof Error) {
+      core.error(`Error: ${error.message}`)
+      core.setFailed(error.message)
+    }
+    return false
+  }
+}
@@ -0,0 +1,52 @@
+import * as core from '@actions/core'
+import { getInputs } from '../utils/inputs.js'
+import {
+  hasPendingModelChanges,
+  parseMigrationContexts
+} from '../utils/migrations.js'
+
+export async function runMigrationsCheck(): Promise<boolean> {
+  try {
+    const inputs = getInputs()
+    const driftedContexts: string[] = []
+
+    for (const context of parseMigrationContexts(inputs.migrationsContexts)) {
+      const label = context ? ` for ${context}` : ''
+      core.info(`Checking for pending model changes${label}...`)
+
+      const pending = await hasPendingModelChanges(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+      if (pending) {
+        core.error(
+          `The EF model${label} has changes that are not covered by a migration. Run "dotnet ef migrations add <Name>${context ? ` --context ${context}` : ''}" and commit the result.`,
+          { title: 'Pending model changes' }
+        )
+        driftedContexts.push(context || 'default')
+      } else {
+        core.info(`No pending model changes${label}.`)
+      }
+    }
+
+    if (driftedContexts.length > 0) {
+      throw new Error(
+        `Pending model changes without a migration: ${driftedContexts.join(', ')}`
+      )
+    }
+
+    core.info('Migrations check completed successfully.')
+    return true
+  } catch (error) {
+    core.error('An error occurred during the migrations check.')
+    if (error instanceof Error) {
+      core.error(`Error: ${error.message}`)
+      core.setFailed(error.message)
+    }
+    return false
+  }
+}
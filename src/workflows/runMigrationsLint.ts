@@ -0,0 +1,81 @@
+import * as core from '@actions/core'
+import { getInputs } from '../utils/inputs.js'
+import { listMigrations, parseMigrationContexts } from '../utils/migrations.js'
+import {
+  readMigrationsFolder,
+  findOutOfOrderMigrations,
+  findSnapshotConflicts
+} from '../utils/migrationLint.js'
+
+export async function runMigrationsLint(): Promise<boolean> {
+  try {
+    const inputs = getInputs()
+    const { migrations, snapshots } = readMigrationsFolder(
+      inputs.migrationsFolder
+    )
+    let failed = false
+
+    for (const context of parseMigrationContexts(inputs.migrationsContexts)) {
+      const label = context ? ` for ${context}` : ''
+      core.info(`Checking migration order${label}...`)
+
+      const contextType = context.split('.').pop()
+      const folderMigrations = migrations.filter(
+        (migration) => !contextType || migration.context === contextType
+      )
+      const applied = (
+        await listMigrations(
+          inputs.envName,
+          inputs.homeDirectory,
+          inputs.migrationsFolder,
+          inputs.dotnetRoot,
+          inputs.useGlobalDotnetEf,
+          context
+        )
+      )
+        .filter((migration) => migration.applied)
+        .map((migration) => migration.id)
+      const latestApplied = [...applied].sort().pop()
+
+      for (const id of findOutOfOrderMigrations(
+        folderMigrations.map((migration) => migration.id),
+        applied
+      )) {
+        core.error(
+          `${id} is pending but sorts before the latest applied migration ${latestApplied}. It was probably added on a branch that was merged after ${latestApplied} was applied; regenerate it with a newer timestamp so it runs against the schema it was written for.`,
+          {
+            title: 'Out-of-order migration',
+            file: folderMigrations.find((migration) => migration.id === id)
+              ?.file
+          }
+        )
+        failed = true
+      }
+    }
+
+    core.info('Checking model snapshots...')
+    for (const issue of findSnapshotConflicts(migrations, snapshots)) {
+      core.error(issue.message, {
+        title: 'Conflicting model snapshot',
+        file: issue.file
+      })
+      failed = true
+    }
+
+    if (failed) {
+      throw new Error(
+        'Migrations lint found out-of-order migrations or conflicting model snapshots.'
+      )
+    }
+
+    core.info('Migrations lint completed successfully.')
+    return true
+  } catch (error) {
+    core.error('An error occurred during the migrations lint.')
+    if (error instanceof Error) {
+      core.error(`Error: ${error.message}`)
+      core.setFailed(error.message)
+    }
+    return false
+  }
+}
@@ -0,0 +1,200 @@
+import * as core from '@actions/core'
+import { getInputs } from '../utils/inputs.js'
+import {
+  MigrationInfo,
+  listMigrations,
+  getBaselineMigration,
+  processMigrations,
+  rollbackMigrations,
+  parseMigrationContexts
+} from '../utils/migrations.js'
+import { assertDestructiveMigrationsApproved } from '../utils/migrationGuard.js'
+import { getHeadCommitMessage } from '../utils/git.js'
+import {
+  createMigrationBackup,
+  restoreMigrationBackup
+} from '../utils/backup.js'
+import {
+  captureSchema,
+  diffSchemas,
+  getConnectionString
+} from '../utils/database.js'
+
+/**
+ * Applies the pending migrations, rolls them back one Down method at a time and applies them again.
+ *
+ * @remarks
+ * The round trip runs against the configured database, so it is held to the same protection as
+ * `runMigrations`: destructive migrations must be approved, and with `backup_before_migrations` the
+ * database is backed up first and restored from the backup when the round trip fails.
+ *
+ * @returns {Promise<boolean>} Whether every round trip succeeded. A failure also fails the step.
+ */
+export async function runMigrationsVerify(): Promise<boolean> {
+  let backupPath = ''
+  try {
+    const inputs = getInputs()
+    const connectionString = getConnectionString(inputs.databaseConnectionName)
+    const compareSchema = Boolean(inputs.databaseProvider && connectionString)
+    if (!compareSchema) {
+      core.warning(
+        'database_provider or the connection string is not set; only Down methods are verified, not the resulting schema.'
+      )
+    }
+
+    // Check every context before any of them is changed.
+    const contexts = parseMigrationContexts(inputs.migrationsContexts)
+    const commitMessage = await getHeadCommitMessage()
+    const contextMigrations: Record<string, MigrationInfo[]> = {}
+    for (const context of contexts) {
+      contextMigrations[context] = await listMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+      assertDestructiveMigrationsApproved(
+        inputs.migrationsFolder,
+        contextMigrations[context].filter((migration) => !migration.applied),
+        inputs.allowDestructiveMigrations,
+        commitMessage
+      )
+    }
+
+    // The backup stays on the runner; only runMigrations uploads its backup as an artifact.
+    if (
+      inputs.backupBeforeMigrations &&
+      Object.values(contextMigrations).some((migrations) =>
+        migrations.some((migration) => !migration.applied)
+      )
+    ) {
+      backupPath = await createMigrationBackup(
+        inputs.databaseProvider,
+        inputs.databaseConnectionName,
+        inputs.backupFolder,
+        false
+      )
+    }
+
+    for (const context of contexts) {
+      const label = context ? ` for ${context}` : ''
+
+      const migrations = contextMigrations[context]
+      const baselineMigration = getBaselineMigration(migrations)
+      const pending = migrations.filter((migration) => !migration.applied)
+      if (pending.length === 0) {
+        core.info(`No pending migrations to verify${label}.`)
+        continue
+      }
+      core.info(
+        `Verifying ${pending.length} migration(s)${label} against baseline ${baselineMigration}...`
+      )
+
+      const baselineSchema = compareSchema
+        ? await captureSchema(inputs.databaseProvider, connectionString)
+        : []
+
+      // Up
+      await processMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+
+      // Down, one migration at a time so a failure names the broken Down method.
+      for (let i = pending.length - 1; i >= 0; i--) {
+        const target = i > 0 ? pending[i - 1].id : baselineMigration
+        try {
+          await rollbackMigrations(
+            inputs.envName,
+            inputs.homeDirectory,
+            inputs.migrationsFolder,
+            inputs.dotnetRoot,
+            inputs.useGlobalDotnetEf,
+            target,
+            context
+          )
+        } catch (error) {
+          throw new Error(
+            `Down method of ${pending[i].id}${label} failed: ${error instanceof Error ? error.message : String(error)}`
+          )
+        }
+      }
+
+      if (compareSchema) {
+        const { added, removed } = diffSchemas(
+          baselineSchema,
+          await captureSchema(inputs.databaseProvider, connectionString)
+        )
+        if (added.length > 0 || removed.length > 0) {
+          core.error(
+            [
+              `Schema${label} differs from the baseline after rolling back:`,
+              ...added.map((line) => `+ ${line}`),
+              ...removed.map((line) => `- ${line}`)
+            ].join('\n'),
+            { title: 'Migration round-trip' }
+          )
+          throw new Error(
+            `Down methods${label} did not restore the baseline schema.`
+          )
+        }
+        core.info(`Schema${label} matches the baseline after rolling back.`)
+      }
+
+      // Up again
+      await processMigrations(
+        inputs.envName,
+        inputs.homeDirectory,
+        inputs.migrationsFolder,
+        inputs.dotnetRoot,
+        inputs.useGlobalDotnetEf,
+        context
+      )
+      core.info(`Migration round-trip verified${label}.`)
+    }
+
+    core.info('Migrations verification completed successfully.')
+    return true
+  } catch (error) {
+    core.error('An error occurred during the migrations verification.')
+    if (error instanceof Error) {
+      core.error(`Error: ${error.message}`)
+      core.setFailed(error.message)
+    }
+    if (backupPath) {
+      await restoreVerifyBackup(backupPath)
+    }
+    return false
+  }
+}
+
+/**
+ * Restores the database from the backup taken before the round trip. Failures are reported, not thrown.
+ */
+async function restoreVerifyBackup(backupPath: string): Promise<void> {
+  try {
+    const inputs = getInputs()
+    await restoreMigrationBackup(
+      inputs.databaseProvider,
+      inputs.databaseConnectionName,
+      backupPath
+    )
+    core.warning(
+      `Restored the database from ${backupPath} taken before the verification.`,
+      { title: 'Migration round-trip' }
+    )
+  } catch (restoreError) {
+    core.error(
+      `Restoring the database from ${backupPath} failed; it may be left partially migrated.`
+    )
+    if (restoreError instanceof Error) {
+      core.error(restoreError.message)
+    }
+  }
+}
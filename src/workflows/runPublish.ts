@@ -1,36 +1,29 @@
 import * as core from '@actions/core'
-import { publishDotnetProject } from '../utils/dotnet.js'
+import { getPublishTargets, publishDotnetProject } from '../utils/dotnet.js'
 import { getInputs } from '../utils/inputs.js'
 
 export async function runPublish(): Promise<void> {
-  const inputs = getInputs()
-  console.log('Publishing binaries...')
-  if (inputs.publishLinux) {
-    core.info('Publishing .NET binaries for Linux...')
-    await publishDotnetProject('Release', './publish/linux', [
-      '--self-contained',
-      '--runtime',
-      'linux-x64'
-    ])
-  }
+  try {
+    const inputs = getInputs()
+    console.log('Publishing binaries...')
+    const targets = getPublishTargets(
+      inputs.publishLinux,
+      inputs.publishWindows,
+      inputs.publishMac
+    )
 
-  if (inputs.publishWindows) {
-    core.info('Publishing .NET binaries for Windows...')
-    await publishDotnetProject('Release', './publish/windows', [
-      '--self-contained',
-      '--runtime',
-      'win-x64'
-    ])
-  }
+    for (const target of targets) {
+      core.info(`Publishing .NET binaries for ${target.runtime}...`)
+      await publishDotnetProject('Release', target.outputDir, [
+        '--self-contained',
+        '--runtime',
+        target.runtime
+      ])
+    }
 
-  if (inputs.publishMac) {
-    core.info('Publishing .NET binaries for macOS...')
-    await publishDotnetProject('Release', './publish/macos', [
-      '--self-contained',
-      '--runtime',
-      'osx-x64'
-    ])
+    console.log('Publishing completed.')
+  } catch (error: unknown) {
+    core.setFailed(error instanceof Error ? error.message : String(error))
+    throw error
   }
-
-  console.log('Publishing completed.')
 }
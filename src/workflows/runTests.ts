@@ -1,50 +1,182 @@
 import * as core from '@actions/core'
-import { getInputs } from '../utils/inputs.js'
+import { ActionInputs, getInputs } from '../utils/inputs.js'
 import {
   processMigrations,
   getLastNonPendingMigration,
-  rollbackMigrations
+  rollbackMigrations,
+  parseMigrationContexts
 } from '../utils/migrations.js'
-import { tests } from '../utils/test.js'
-import { uploadTestArtifact } from '../utils/artifact.js'
+import {
+  listRetryResultFiles,
+  parseTestLoggers,
+  resolveTestLoggers,
+  tests
+} from '../utils/test.js'
+import {
+  downloadBranchArtifact,
+  uploadTestArtifact
+} from '../utils/artifact.js'
+import {
+  TestDatabase,
+  startTestDatabase,
+  stopTestDatabase
+} from '../utils/testDatabase.js'
+import {
+  createMigrationBackup,
+  restoreMigrationBackup
+} from '../utils/backup.js'
+import { seedDatabase } from '../utils/seed.js'
+import {
+  SchemaDiff,
+  getSchemaDiff,
+  writeSchemaDiffSummary
+} from '../utils/schemaDiff.js'
+import {
+  annotateFailedTests,
+  mergeRetryResults,
+  readTestResultsFile,
+  setTestResultOutputs,
+  writeTestResultSummary
+} from '../utils/testResults.js'
+import {
+  COVERAGE_BASELINE_FILE,
+  COVERAGE_FOLDER,
+  CoverageBaseline,
+  checkCoverageThresholds,
+  compareCoverage,
+  createCoverageBaseline,
+  getCoverageFolder,
+  readCoverageBaseline,
+  readCoverageFolder,
+  setCoverageOutputs,
+  summarizeCoverage,
+  writeCoverageDeltaSummary,
+  writeCoverageSummary
+} from '../utils/coverage.js'
+import { getChangedLines } from '../utils/git.js'
+import {
+  buildTestFilter,
+  listTests,
+  matchTestDurations,
+  readTestDurations,
+  splitTests
+} from '../utils/testShards.js'
+import { applyQuarantine, readQuarantineFile } from '../utils/testQuarantine.js'
+import * as fs from 'fs'
+import * as os from 'os'
 import * as path from 'path'
 
-export async function runTests(): Promise<void> {
-  let baselineMigration = ''
-  let newMigration = ''
-  let resultFilePath = ''
+/**
+ * The result of `runTests`.
+ *
+ * @property succeeded - Whether the tests ran and passed, including the coverage minimums.
+ * @property rolledBackMigrations - Whether the migrations applied for the tests were already rolled back
+ * because of `rollback_migrations_on_test_failed`.
+ */
+export interface TestRunResult {
+  succeeded: boolean
+  rolledBackMigrations: boolean
+}
+
+export async function runTests(): Promise<TestRunResult> {
+  const result: TestRunResult = { succeeded: true, rolledBackMigrations: false }
+  const baselineMigrations: Record<string, string> = {}
+  let resultFiles: string[] = []
   let resultFolder = ''
+  let testDatabase: TestDatabase | undefined
+  let backupPath = ''
+  let quarantinedTests: string[] = []
 
   try {
     // Retrieve and validate inputs
     const inputs = getInputs()
 
+    // Check the quarantine file first, so expired entries fail before anything is started.
+    if (inputs.testQuarantineFile) {
+      quarantinedTests = loadQuarantine(inputs)
+    }
+
+    // Start a throwaway database so parallel builds never share test data.
+    if (inputs.testDatabaseProvider) {
+      testDatabase = await startTestDatabase(
+        inputs.testDatabaseProvider,
+        inputs.testDatabaseConnectionName,
+        inputs.testDatabaseImage
+      )
+    }
+
     // Migrations block: Get baseline and process new migrations if requested.
     if (inputs.runTestsMigrations) {
       core.debug('Attempting to run migrations...')
+      const schemaDiffs: SchemaDiff[] = []
       try {
-        baselineMigration = await getLastNonPendingMigration(
-          inputs.testsEnvName,
-          inputs.homeDirectory,
-          inputs.testMigrationsFolder,
-          inputs.dotnetRoot,
-          inputs.useGlobalDotnetEf
-        )
-        core.info(
-          `Baseline migration before new migrations: ${baselineMigration}`
-        )
+        // A throwaway test database needs no backup.
+        if (inputs.backupBeforeMigrations && !testDatabase) {
+          backupPath = await createMigrationBackup(
+            inputs.databaseProvider,
+            inputs.databaseConnectionName,
+            inputs.backupFolder,
+            inputs.uploadBackup
+          )
+          core.setOutput('backupPath', backupPath)
+        }
 
-        newMigration = await processMigrations(
-          inputs.testsEnvName,
-          inputs.homeDirectory,
-          inputs.testMigrationsFolder,
-          inputs.dotnetRoot,
-          inputs.useGlobalDotnetEf
-        )
-        if (newMigration) {
-          core.info(`New migration applied: ${newMigration}`)
-        } else {
-          core.info('No new migrations were applied.')
+        for (const context of parseMigrationContexts(
+          inputs.migrationsContexts
+        )) {
+          const label = context ? ` for ${context}` : ''
+
+          const baselineMigration = await getLastNonPendingMigration(
+            inputs.testsEnvName,
+            inputs.homeDirectory,
+            inputs.testMigrationsFolder,
+            inputs.dotnetRoot,
+            inputs.useGlobalDotnetEf,
+            context
+          )
+          baselineMigrations[context] = baselineMigration
+          core.info(
+            `Baseline migration${label} before new migrations: ${baselineMigration}`
+          )
+
+          const newMigration = await processMigrations(
+            inputs.testsEnvName,
+            inputs.homeDirectory,
+            inputs.testMigrationsFolder,
+            inputs.dotnetRoot,
+            inputs.useGlobalDotnetEf,
+            context
+          )
+          if (newMigration) {
+            core.info(`New migration applied${label}: ${newMigration}`)
+          } else {
+            core.info(`No new migrations were applied${label}.`)
+          }
+
+          if (inputs.schemaDiffReport && newMigration) {
+            try {
+              schemaDiffs.push(
+                await getSchemaDiff(
+                  inputs.testsEnvName,
+                  inputs.homeDirectory,
+                  inputs.testMigrationsFolder,
+                  inputs.dotnetRoot,
+                  inputs.useGlobalDotnetEf,
+                  baselineMigration,
+                  newMigration,
+                  context
+                )
+              )
+            } catch (diffError) {
+              core.warning(
+                `Could not build the schema diff${label}: ${diffError instanceof Error ? diffError.message : String(diffError)}`
+              )
+            }
+          }
+        }
+
+        if (schemaDiffs.length > 0) {
+          await writeSchemaDiffSummary('Schema changes (tests)', schemaDiffs)
         }
       } catch (migrationError) {
         core.error('Error during migrations:')
@@ -58,49 +190,114 @@ export async function runTests(): Promise<void> {
       core.info('Skipping migrations as requested.')
     }
 
-    // Run tests and capture output file path and folder.
-    try {
-      core.debug('Starting test execution...')
-      await tests(
-        inputs.envName,
-        inputs.testFolder,
-        inputs.testOutputFolder,
-        inputs.testFormat,
-        inputs.useGlobalDotnetEf
+    // Reference data the tests depend on, seeded into the test database when one was started.
+    if (inputs.seedCommand || inputs.seedScriptsFolder) {
+      await seedDatabase(
+        inputs.seedCommand,
+        inputs.seedScriptsFolder,
+        inputs.testsEnvName,
+        inputs.homeDirectory,
+        inputs.dotnetRoot,
+        testDatabase ? testDatabase.provider : inputs.databaseProvider,
+        testDatabase
+          ? inputs.testDatabaseConnectionName
+          : inputs.databaseConnectionName
       )
-      core.info('Tests executed successfully.')
+    }
 
-      resultFolder = inputs.testOutputFolder
-      resultFilePath = path.join(
-        resultFolder,
-        `TestResults.${inputs.testFormat}`
+    // Determine the result paths up front so failed runs are reported and uploaded too.
+    // test_loggers replaces the single test_format logger when set.
+    const testLoggers = inputs.testLoggers
+      ? parseTestLoggers(inputs.testLoggers)
+      : [inputs.testFormat].filter((format) => format)
+    // Retries and the quarantine read the failed tests from a TRX file.
+    if (
+      (inputs.testRetries > 0 || quarantinedTests.length > 0) &&
+      !testLoggers.some(
+        (logger) => logger.split(';')[0].trim().toLowerCase() === 'trx'
       )
-      core.debug(`Determined test results file path: ${resultFilePath}`)
+    ) {
+      testLoggers.push('trx')
+    }
+    resultFolder = inputs.testOutputFolder
+    resultFiles = resolveTestLoggers(testLoggers, resultFolder)
+      .map((logger) => logger.filePath)
+      .filter((filePath) => filePath)
+    core.debug(`Determined test results file paths: ${resultFiles.join(', ')}`)
+
+    // Run tests, only this job's share of them when sharded.
+    try {
+      core.debug('Starting test execution...')
+      const shardFilter =
+        inputs.testShardCount > 1 ? await getShardFilter(inputs) : undefined
+      if (shardFilter === '') {
+        core.info(
+          `Shard ${inputs.testShardIndex} of ${inputs.testShardCount} has no tests; skipping test execution.`
+        )
+      } else {
+        await tests(
+          inputs.envName,
+          inputs.testFolder,
+          inputs.testOutputFolder,
+          testLoggers,
+          inputs.useGlobalDotnetEf,
+          inputs.collectCoverage,
+          shardFilter,
+          inputs.testRetries,
+          quarantinedTests
+        )
+        core.info('Tests executed successfully.')
+      }
     } catch (testError) {
       core.error('Tests failed.')
       // Roll back migrations only if conditions are met.
-      if (
-        inputs.rollbackMigrationsOnTestFailed &&
-        baselineMigration &&
-        baselineMigration !== '0'
-      ) {
-        try {
-          core.info(
-            `Rolling back migrations to baseline: ${baselineMigration} due to test failure...`
-          )
-          await rollbackMigrations(
-            inputs.testsEnvName,
-            inputs.homeDirectory,
-            inputs.testMigrationsFolder,
-            inputs.dotnetRoot,
-            inputs.useGlobalDotnetEf,
-            baselineMigration
-          )
-          core.info('Rollback completed successfully.')
-        } catch (rollbackError) {
-          core.error('Rollback failed:')
-          if (rollbackError instanceof Error) {
-            core.error(rollbackError.message)
+      const rollbackTargets = Object.entries(baselineMigrations).filter(
+        ([, baseline]) => baseline && baseline !== '0'
+      )
+      if (inputs.rollbackMigrationsOnTestFailed && rollbackTargets.length > 0) {
+        // Each context is restored to its own baseline; one failure does not block the others.
+        result.rolledBackMigrations = true
+        let rollbackFailed = false
+        for (const [context, baselineMigration] of rollbackTargets) {
+          const label = context ? ` for ${context}` : ''
+          try {
+            core.info(
+              `Rolling back migrations${label} to baseline: ${baselineMigration} due to test failure...`
+            )
+            await rollbackMigrations(
+              inputs.testsEnvName,
+              inputs.homeDirectory,
+              inputs.testMigrationsFolder,
+              inputs.dotnetRoot,
+              inputs.useGlobalDotnetEf,
+              baselineMigration,
+              context
+            )
+            core.info(`Rollback${label} completed successfully.`)
+          } catch (rollbackError) {
+            core.error(`Rollback${label} failed:`)
+            if (rollbackError instanceof Error) {
+              core.error(rollbackError.message)
+            }
+            rollbackFailed = true
+          }
+        }
+
+        // The backup is the restore point when the Down methods cannot undo the migrations.
+        if (rollbackFailed && backupPath) {
+          try {
+            await restoreMigrationBackup(
+              inputs.databaseProvider,
+              inputs.databaseConnectionName,
+              backupPath
+            )
+          } catch (restoreError) {
+            core.error(
+              `Restoring the database from ${backupPath} failed; it may be left partially migrated.`
+            )
+            if (restoreError instanceof Error) {
+              core.error(restoreError.message)
+            }
           }
         }
       } else {
@@ -112,6 +309,7 @@ export async function runTests(): Promise<void> {
       throw testError
     }
   } catch (error) {
+    result.succeeded = false
     core.error('An error occurred during execution:')
     if (error instanceof Error) {
       core.error(`Error: ${error.message}`)
@@ -121,13 +319,72 @@ export async function runTests(): Promise<void> {
       core.setFailed('Unknown error occurred.')
     }
   } finally {
+    if (testDatabase) {
+      await stopTestDatabase(testDatabase)
+    }
+
+    // Report the TRX (preferred) or JUnit results, whether the tests passed or failed.
+    const reportFile = ['.trx', '.xml']
+      .map((extension) =>
+        resultFiles.find(
+          (filePath) =>
+            filePath.toLowerCase().endsWith(extension) &&
+            fs.existsSync(filePath)
+        )
+      )
+      .find((filePath) => filePath)
+    if (reportFile) {
+      try {
+        // Tests that passed on a retry are reported as flaky instead of failed.
+        const retryFiles = listRetryResultFiles(resultFolder)
+        resultFiles.push(...retryFiles)
+        const result = applyQuarantine(
+          mergeRetryResults(
+            readTestResultsFile(reportFile),
+            retryFiles.map((file) => readTestResultsFile(file))
+          ),
+          quarantinedTests
+        )
+        annotateFailedTests(result)
+        setTestResultOutputs(result)
+        await writeTestResultSummary('Test results', result)
+        core.info(
+          `Tests: ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped, ${result.flaky} flaky, ${result.quarantined} quarantined.`
+        )
+      } catch (reportError) {
+        core.warning(
+          `Could not report test results: ${reportError instanceof Error ? reportError.message : String(reportError)}`
+        )
+      }
+    }
+
+    // Report coverage and enforce the minimums; the reports are uploaded with the test results.
+    if (resultFolder) {
+      try {
+        const inputs = getInputs()
+        if (inputs.collectCoverage) {
+          const coverage = await reportCoverage(inputs, resultFolder)
+          resultFiles.push(...coverage.files)
+          result.succeeded = result.succeeded && coverage.passed
+        }
+      } catch (coverageError) {
+        core.warning(
+          `Could not report coverage: ${coverageError instanceof Error ? coverageError.message : String(coverageError)}`
+        )
+      }
+    }
+
     // Upload test artifact in a safe manner even if earlier steps failed.
-    if (resultFilePath && resultFolder) {
+    if (resultFiles.length > 0 && resultFolder) {
       try {
         const inputs = getInputs()
         if (inputs.uploadTestsResults) {
           core.debug('Uploading test artifact...')
-          await uploadTestArtifact(resultFilePath, resultFolder)
+          await uploadTestArtifact(
+            resultFiles,
+            resultFolder,
+            getTestArtifactName(inputs)
+          )
           core.info('Artifact uploaded successfully.')
         } else {
           core.debug('Artifact upload skipped as per configuration.')
@@ -145,4 +402,187 @@ export async function runTests(): Promise<void> {
     }
     core.info('GitHub Action completed its final routine.')
   }
+  return result
+}
+
+/**
+ * Returns the name of the test results artifact: `test-results`, or `test-results-shard-<index>`
+ * when sharded. The coverage baseline of a shard is read from the same shard's artifact on the
+ * baseline branch, since each shard covers only its own tests.
+ */
+function getTestArtifactName(inputs: ActionInputs): string {
+  return inputs.testShardCount > 1
+    ? `test-results-shard-${inputs.testShardIndex}`
+    : 'test-results'
+}
+
+/**
+ * Reads the quarantine file and annotates its problems on the file.
+ *
+ * Returns the names of the quarantined tests, or throws when the file has errors, such as entries
+ * past their grace period.
+ */
+function loadQuarantine(inputs: ActionInputs): string[] {
+  const file = inputs.testQuarantineFile
+  const { entries, issues } = readQuarantineFile(
+    file,
+    inputs.testQuarantineGraceDays
+  )
+  for (const issue of issues) {
+    const properties = { title: 'Test quarantine', file, startLine: issue.line }
+    if (issue.severity === 'error') {
+      core.error(issue.message, properties)
+    } else {
+      core.warning(issue.message, properties)
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error')
+  if (errors.length > 0) {
+    throw new Error(
+      `The quarantine file ${file} has ${errors.length} error(s): ${errors.map((issue) => issue.message).join(' ')}`
+    )
+  }
+  core.info(
+    `Quarantined tests (${entries.length}): ${entries.map((entry) => `${entry.test} (${entry.owner}, until ${entry.expires})`).join(', ') || 'none'}`
+  )
+  return entries.map((entry) => entry.test)
+}
+
+/**
+ * Selects the tests of this job's shard.
+ *
+ * Returns the `--filter` expression for the shard, or an empty string when the shard has no tests.
+ */
+async function getShardFilter(inputs: ActionInputs): Promise<string> {
+  const { testShardIndex: index, testShardCount: count } = inputs
+  if (!Number.isInteger(index) || index < 1 || index > count) {
+    throw new Error(
+      `test_shard_index must be between 1 and test_shard_count (${count}), got ${index}.`
+    )
+  }
+
+  const allTests = await listTests(inputs.testFolder)
+  const durations = inputs.testShardHistory
+    ? matchTestDurations(allTests, readTestDurations(inputs.testShardHistory))
+    : {}
+  const shard = splitTests(allTests, count, durations)[index - 1]
+  core.info(
+    `Shard ${index} of ${count}: ${shard.tests.length} of ${allTests.length} tests${Object.keys(durations).length > 0 ? `, about ${Math.round(shard.duration / 1000)} s` : ''}.`
+  )
+  core.setOutput('test_shard_tests', shard.tests.length)
+  return buildTestFilter(shard.tests)
+}
+
+/**
+ * Reports the coverage of the test run and fails the step when a minimum is missed.
+ *
+ * Returns the Cobertura reports and the new coverage baseline, so they are uploaded with the test
+ * results and later runs on other branches can compare against them, and whether every minimum was met.
+ */
+export async function reportCoverage(
+  inputs: ActionInputs,
+  resultFolder: string
+): Promise<{ files: string[]; passed: boolean }> {
+  const coverageFolder = getCoverageFolder(resultFolder)
+  const { reportFiles, coverage } = readCoverageFolder(coverageFolder)
+  if (reportFiles.length === 0) {
+    core.warning(
+      'No Cobertura coverage report was found. Make sure the test projects reference coverlet.collector.'
+    )
+    return { files: [], passed: true }
+  }
+
+  const summary = summarizeCoverage(coverage)
+  setCoverageOutputs(summary)
+  await writeCoverageSummary('Code coverage', summary)
+  core.info(
+    `Coverage: ${summary.lineRate}% of lines, ${summary.branchRate}% of branches.`
+  )
+  const failures = checkCoverageThresholds(
+    summary,
+    inputs.coverageThreshold,
+    inputs.coverageBranchThreshold
+  )
+
+  const baselinePath = path.join(coverageFolder, COVERAGE_BASELINE_FILE)
+  fs.writeFileSync(
+    baselinePath,
+    JSON.stringify(createCoverageBaseline(coverage), null, 2)
+  )
+
+  // Compare with the baseline and the lines changed since the base branch. The comparison is
+  // best effort: when it fails, the thresholds above are still enforced.
+  if (
+    inputs.coverageBaselineFile ||
+    inputs.coverageBaselineBranch ||
+    inputs.coverageChangedLinesThreshold > 0
+  ) {
+    try {
+      let baseline: CoverageBaseline | undefined
+      if (inputs.coverageBaselineFile) {
+        baseline = readCoverageBaseline(inputs.coverageBaselineFile)
+      } else if (inputs.coverageBaselineBranch) {
+        const downloadPath = await downloadBranchArtifact(
+          getTestArtifactName(inputs),
+          inputs.coverageBaselineBranch,
+          path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'coverage-baseline')
+        )
+        const downloadedBaseline = downloadPath
+          ? path.join(downloadPath, COVERAGE_FOLDER, COVERAGE_BASELINE_FILE)
+          : ''
+        if (downloadedBaseline && fs.existsSync(downloadedBaseline)) {
+          baseline = readCoverageBaseline(downloadedBaseline)
+        } else {
+          core.warning(
+            `No coverage baseline was found in the ${getTestArtifactName(inputs)} artifact of ${inputs.coverageBaselineBranch}; coverage changes are reported without it.`
+          )
+        }
+      }
+
+      const baseBranch =
+        process.env.GITHUB_BASE_REF || inputs.coverageBaselineBranch
+      const changedLines = baseBranch ? await getChangedLines(baseBranch) : {}
+      if (!baseBranch && inputs.coverageChangedLinesThreshold > 0) {
+        core.warning(
+          'Changed-line coverage is not checked: no pull request base branch or coverage_baseline_branch is known.'
+        )
+      }
+
+      const delta = compareCoverage(coverage, baseline, changedLines)
+      if (delta.baselineLineRate !== undefined) {
+        core.setOutput(
+          'coverage_delta',
+          Math.round((delta.lineRate - delta.baselineLineRate) * 100) / 100
+        )
+      }
+      core.setOutput('coverage_changed_lines', delta.changedLinesRate)
+      await writeCoverageDeltaSummary('Coverage changes', delta)
+
+      if (
+        baseBranch &&
+        inputs.coverageChangedLinesThreshold > 0 &&
+        delta.changedLinesRate < inputs.coverageChangedLinesThreshold
+      ) {
+        failures.push(
+          `Coverage of changed lines ${delta.changedLinesRate}% (${delta.changedLinesCovered}/${delta.changedLinesValid}) is below the minimum of ${inputs.coverageChangedLinesThreshold}%.`
+        )
+      }
+    } catch (error) {
+      core.warning(
+        `Could not compare coverage with the baseline: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  for (const failure of failures) {
+    core.error(failure, { title: 'Coverage below minimum' })
+  }
+  if (failures.length > 0) {
+    core.setFailed(failures.join(' '))
+  }
+  return {
+    files: [...reportFiles, baselinePath],
+    passed: failures.length === 0
+  }
 }